@@ -1,10 +1,21 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { useCanvas } from './hooks/useCanvas';
 import { Toolbar } from './components/Toolbar';
 import { Canvas } from './components/Canvas';
 import { PropertiesPanel } from './components/PropertiesPanel';
 import { LayersPanel } from './components/LayersPanel';
 import { MenuBar } from './components/MenuBar';
+import { ArtboardsPanel } from './components/ArtboardsPanel';
+import { HistoryPanel } from './components/HistoryPanel';
+import { RecoveryDialog } from './components/RecoveryDialog';
+import { DocumentLibrary } from './components/DocumentLibrary';
+import { useAutosave } from './hooks/useAutosave';
+import { ProjectLoadError, getProjectData } from './utils/project';
+import { DocumentSummary, loadDocument, saveDocument } from './utils/library';
+import { getProjectFilename, saveProjectArchive } from './utils/archive';
+import { flattenObjects } from './utils/objects';
+import { isTextEntryTarget } from './utils/keyboard';
+import { ProjectData, SnapSettings } from './types';
 
 function App() {
   const {
@@ -13,10 +24,21 @@ function App() {
     redo,
     canUndo,
     canRedo,
+    past,
+    future,
+    jumpToStep,
     setTool,
     addObject,
     updateObject,
-    deleteObject,
+    updateObjects,
+    deleteObjects,
+    groupObjects,
+    ungroupObjects,
+    booleanOperation,
+    makeCompoundPath,
+    releaseCompoundPath,
+    alignObjects,
+    distributeObjects,
     selectObjects,
     setZoom,
     setPan,
@@ -24,17 +46,88 @@ function App() {
     deleteLayer,
     updateLayer,
     moveLayer,
+    addArtboard,
+    deleteArtboard,
+    updateArtboard,
+    setActiveArtboard,
+    addGuide,
+    moveGuide,
+    removeGuide,
+    beginTransaction,
+    endTransaction,
     loadProject
   } = useCanvas();
 
+  const [snapSettings, setSnapSettings] = useState<SnapSettings>({ smartGuides: true, grid: false, gridSize: 20 });
+  const [showGrid, setShowGrid] = useState(true);
+  const [showRulers, setShowRulers] = useState(true);
+  const [showArtboards, setShowArtboards] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  // The library document being edited; null until the design is first saved
+  const [currentDocument, setCurrentDocument] = useState<DocumentSummary | null>(null);
+
   // Get active layer and selected objects
   const activeLayer = state.layers.find(layer => layer.id === state.activeLayerId);
   const allObjects = state.layers.flatMap(layer => layer.objects);
-  const selectedObjects = allObjects.filter(obj => state.selectedObjectIds.includes(obj.id));
+  const selectedObjects = flattenObjects(allObjects).filter(obj => state.selectedObjectIds.includes(obj.id));
+
+  const autosave = useAutosave(getProjectData(state), loadProject);
+  const { markSaved } = autosave;
+
+  // Saves to the document library, over the open document if there is one
+  const handleSave = useCallback(async () => {
+    const project = getProjectData(state);
+    try {
+      const summary = await saveDocument(project, currentDocument?.name || 'Untitled', currentDocument?.id);
+      setCurrentDocument(summary);
+      markSaved(project);
+    } catch (error) {
+      console.error('Failed to save document:', error);
+      alert('Failed to save the document. The browser may be out of storage space.');
+    }
+  }, [state, currentDocument, markSaved]);
+
+  // Downloads a packaged copy; the library copy, if any, is unaffected
+  const handleSaveToFile = async () => {
+    try {
+      await saveProjectArchive(getProjectData(state), getProjectFilename(currentDocument?.name || 'Untitled'));
+    } catch (error) {
+      console.error('Failed to save project file:', error);
+      alert('Failed to save the project file.');
+    }
+  };
+
+  const confirmDiscardChanges = () => {
+    return !autosave.hasUnsavedChanges || window.confirm('Discard unsaved changes to the current design?');
+  };
+
+  const handleOpenDocument = async (summary: DocumentSummary) => {
+    if (!confirmDiscardChanges()) return;
+    try {
+      const project = await loadDocument(summary.id);
+      if (!project) throw new Error(`Document ${summary.id} is missing from the library`);
+      markSaved(getProjectData(loadProject(project)));
+      setCurrentDocument(summary);
+      setIsLibraryOpen(false);
+    } catch (error) {
+      console.error('Failed to open document:', error);
+      alert(error instanceof ProjectLoadError ? `Failed to open the document.\n\n${error.message}` : 'Failed to open the document.');
+    }
+  };
+
+  // A design opened from a file is not in the library until it is saved
+  const handleLoadProject = (project: ProjectData) => {
+    if (!confirmDiscardChanges()) return;
+    markSaved(getProjectData(loadProject(project)));
+    setCurrentDocument(null);
+  };
 
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      if (isTextEntryTarget(e.target)) return;
+
       if (e.ctrlKey || e.metaKey) {
         switch (e.key) {
           case 'z':
@@ -51,7 +144,24 @@ function App() {
             break;
           case 's':
             e.preventDefault();
-            // Save functionality would go here
+            handleSave();
+            break;
+          case 'g':
+          case 'G':
+            e.preventDefault();
+            if (e.shiftKey) {
+              ungroupObjects(state.selectedObjectIds);
+            } else {
+              groupObjects(state.selectedObjectIds);
+            }
+            break;
+          case '8':
+            e.preventDefault();
+            if (e.altKey) {
+              releaseCompoundPath(state.selectedObjectIds);
+            } else {
+              makeCompoundPath(state.selectedObjectIds);
+            }
             break;
         }
       } else {
@@ -60,6 +170,9 @@ function App() {
           case 'v':
             setTool('select');
             break;
+          case 'a':
+            setTool('node');
+            break;
           case 'p':
             setTool('pen');
             break;
@@ -92,7 +205,9 @@ function App() {
             break;
           case 'Delete':
           case 'Backspace':
-            state.selectedObjectIds.forEach(id => deleteObject(id));
+            // The direct selection tool deletes path nodes instead (handled by the canvas)
+            if (state.tool === 'node') break;
+            deleteObjects(state.selectedObjectIds);
             break;
         }
       }
@@ -100,7 +215,7 @@ function App() {
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [undo, redo, setTool, state.selectedObjectIds, deleteObject]);
+  }, [undo, redo, setTool, state.tool, state.selectedObjectIds, handleSave, deleteObjects, groupObjects, ungroupObjects, makeCompoundPath, releaseCompoundPath]);
 
   const handleSetActiveLayer = (layerId: string) => {
     updateLayer(state.activeLayerId, { id: layerId });
@@ -115,11 +230,28 @@ function App() {
         canUndo={canUndo}
         canRedo={canRedo}
         layers={state.layers}
-        canvasSize={state.canvasSize}
+        artboards={state.artboards}
+        activeArtboardId={state.activeArtboardId}
         zoom={state.zoom}
         onZoomChange={setZoom}
-        onLoadProject={loadProject}
+        onLoadProject={handleLoadProject}
+        onSave={handleSave}
+        onSaveToFile={handleSaveToFile}
+        onOpenLibrary={() => setIsLibraryOpen(true)}
+        documentName={currentDocument?.name || 'Untitled'}
+        hasUnsavedChanges={autosave.hasUnsavedChanges}
+        lastAutosavedAt={autosave.lastAutosavedAt}
         onAddObject={addObject}
+        snapSettings={snapSettings}
+        onSnapSettingsChange={setSnapSettings}
+        showGrid={showGrid}
+        onShowGridChange={setShowGrid}
+        showRulers={showRulers}
+        onShowRulersChange={setShowRulers}
+        showArtboards={showArtboards}
+        onShowArtboardsChange={setShowArtboards}
+        showHistory={showHistory}
+        onShowHistoryChange={setShowHistory}
       />
 
       {/* Main Content */}
@@ -138,11 +270,43 @@ function App() {
             tool={state.tool}
             zoom={state.zoom}
             pan={state.pan}
+            snapSettings={snapSettings}
+            guides={state.guides}
+            artboards={state.artboards}
+            activeArtboardId={state.activeArtboardId}
+            showGrid={showGrid}
+            showRulers={showRulers}
             onObjectSelect={selectObjects}
             onObjectUpdate={updateObject}
             onAddObject={addObject}
             onPanChange={setPan}
             onZoomChange={setZoom}
+            onAddGuide={addGuide}
+            onMoveGuide={moveGuide}
+            onRemoveGuide={removeGuide}
+            onBeginTransaction={beginTransaction}
+            onEndTransaction={endTransaction}
+          />
+
+          {/* Artboards Panel */}
+          <ArtboardsPanel
+            artboards={state.artboards}
+            activeArtboardId={state.activeArtboardId}
+            onAddArtboard={addArtboard}
+            onDeleteArtboard={deleteArtboard}
+            onUpdateArtboard={updateArtboard}
+            onSetActiveArtboard={setActiveArtboard}
+            onClose={() => setShowArtboards(false)}
+            isVisible={showArtboards}
+          />
+
+          {/* History Panel */}
+          <HistoryPanel
+            past={past}
+            future={future}
+            onJumpToStep={jumpToStep}
+            onClose={() => setShowHistory(false)}
+            isVisible={showHistory}
           />
           
           {/* Layers Panel */}
@@ -161,8 +325,34 @@ function App() {
         <PropertiesPanel
           selectedObjects={selectedObjects}
           onUpdateObject={updateObject}
+          onUpdateObjects={updateObjects}
+          onBooleanOperation={operation => booleanOperation(state.selectedObjectIds, operation)}
+          onMakeCompoundPath={() => makeCompoundPath(state.selectedObjectIds)}
+          onReleaseCompoundPath={() => releaseCompoundPath(state.selectedObjectIds)}
+          onAlign={(alignment, reference, keyObjectId) => alignObjects(state.selectedObjectIds, alignment, reference, keyObjectId)}
+          onDistribute={(axis, mode, reference) => distributeObjects(state.selectedObjectIds, axis, mode, reference)}
         />
       </div>
+
+      <DocumentLibrary
+        isOpen={isLibraryOpen}
+        onClose={() => setIsLibraryOpen(false)}
+        currentDocumentId={currentDocument?.id || null}
+        onOpenDocument={handleOpenDocument}
+        onDocumentRenamed={summary => {
+          if (summary.id === currentDocument?.id) setCurrentDocument(summary);
+        }}
+        onDocumentDeleted={documentId => {
+          if (documentId === currentDocument?.id) setCurrentDocument(null);
+        }}
+      />
+
+      {/* Offered once on startup when the last session left unsaved work */}
+      <RecoveryDialog
+        record={autosave.recovery}
+        onRecover={autosave.recover}
+        onDiscard={autosave.discard}
+      />
     </div>
   );
 }
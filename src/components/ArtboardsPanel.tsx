@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { Frame, Plus, Trash2, X, RectangleHorizontal } from 'lucide-react';
+import { Artboard } from '../types';
+import { ARTBOARD_PRESETS, ArtboardPreset } from '../utils/artboards';
+
+interface ArtboardsPanelProps {
+  artboards: Artboard[];
+  activeArtboardId: string;
+  onAddArtboard: (preset: ArtboardPreset) => void;
+  onDeleteArtboard: (artboardId: string) => void;
+  onUpdateArtboard: (artboardId: string, updates: Partial<Artboard>) => void;
+  onSetActiveArtboard: (artboardId: string) => void;
+  onClose: () => void;
+  isVisible: boolean;
+}
+
+export const ArtboardsPanel: React.FC<ArtboardsPanelProps> = ({
+  artboards,
+  activeArtboardId,
+  onAddArtboard,
+  onDeleteArtboard,
+  onUpdateArtboard,
+  onSetActiveArtboard,
+  onClose,
+  isVisible
+}) => {
+  const [presetIndex, setPresetIndex] = useState(0);
+
+  if (!isVisible) return null;
+
+  const activeArtboard = artboards.find(artboard => artboard.id === activeArtboardId) || artboards[0];
+
+  const numberField = (label: string, key: 'x' | 'y' | 'width' | 'height', min?: number) => (
+    <div>
+      <label className="block text-xs text-slate-400 mb-1 font-semibold">{label}</label>
+      <input
+        type="number"
+        min={min}
+        value={Math.round(activeArtboard[key])}
+        onChange={(e) => {
+          const value = parseFloat(e.target.value);
+          if (isNaN(value) || (min !== undefined && value < min)) return;
+          onUpdateArtboard(activeArtboard.id, { [key]: value });
+        }}
+        className="w-full px-3 py-2 bg-slate-800/50 border border-slate-600/50 rounded-lg text-white text-sm focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 transition-all duration-200"
+      />
+    </div>
+  );
+
+  return (
+    <div className="absolute top-8 right-4 bg-slate-900/95 backdrop-blur-xl border border-slate-700/50 rounded-2xl shadow-2xl p-5 z-50 w-80">
+      <div className="flex items-center justify-between mb-5">
+        <div className="flex items-center gap-3">
+          <div className="w-8 h-8 bg-gradient-to-br from-sky-500 to-indigo-600 rounded-xl flex items-center justify-center shadow-lg">
+            <Frame className="text-white" size={16} />
+          </div>
+          <h3 className="text-white font-bold text-lg">Artboards</h3>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-2 text-slate-400 hover:text-white hover:bg-slate-700/50 rounded-xl transition-all duration-200"
+        >
+          <X size={16} />
+        </button>
+      </div>
+
+      {/* Artboard list */}
+      <div className="space-y-2 max-h-48 overflow-y-auto mb-5">
+        {artboards.map(artboard => {
+          const isActive = artboard.id === activeArtboard.id;
+          return (
+            <div
+              key={artboard.id}
+              onClick={() => onSetActiveArtboard(artboard.id)}
+              className={`flex items-center gap-2 p-2 rounded-xl cursor-pointer transition-all duration-200 group border ${
+                isActive
+                  ? 'bg-gradient-to-r from-sky-600/20 to-indigo-600/20 border-sky-500/40'
+                  : 'hover:bg-slate-700/30 border-slate-700/30 hover:border-slate-600/50'
+              }`}
+            >
+              <RectangleHorizontal size={14} className="text-slate-400" />
+              <input
+                type="text"
+                value={artboard.name}
+                onChange={(e) => onUpdateArtboard(artboard.id, { name: e.target.value })}
+                onClick={(e) => e.stopPropagation()}
+                className="flex-1 min-w-0 bg-transparent text-white text-sm outline-none focus:bg-slate-800/50 px-2 py-1 rounded transition-all duration-200"
+              />
+              <span className="text-xs text-slate-500 font-mono">
+                {Math.round(artboard.width)}×{Math.round(artboard.height)}
+              </span>
+              {artboards.length > 1 && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onDeleteArtboard(artboard.id);
+                  }}
+                  className="p-1 text-slate-500 hover:text-red-400 rounded transition-all duration-200 opacity-0 group-hover:opacity-100"
+                  title="Delete Artboard"
+                >
+                  <Trash2 size={14} />
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Active artboard geometry */}
+      <div className="grid grid-cols-2 gap-3 mb-3">
+        {numberField('X', 'x')}
+        {numberField('Y', 'y')}
+        {numberField('Width', 'width', 1)}
+        {numberField('Height', 'height', 1)}
+      </div>
+      <div className="grid grid-cols-2 gap-2 mb-5">
+        <select
+          value=""
+          onChange={(e) => {
+            const preset = ARTBOARD_PRESETS[parseInt(e.target.value)];
+            if (preset) onUpdateArtboard(activeArtboard.id, { width: preset.width, height: preset.height });
+          }}
+          className="px-3 py-2 bg-slate-800/50 border border-slate-600/50 rounded-lg text-white text-sm"
+        >
+          <option value="" disabled>Resize to…</option>
+          {ARTBOARD_PRESETS.map((preset, i) => (
+            <option key={preset.name} value={i}>{preset.name}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => onUpdateArtboard(activeArtboard.id, { width: activeArtboard.height, height: activeArtboard.width })}
+          className="px-3 py-2 bg-slate-700/50 text-slate-300 rounded-lg text-sm hover:bg-slate-600/50 transition-all duration-200"
+        >
+          Swap Orientation
+        </button>
+      </div>
+
+      {/* New artboard */}
+      <div className="flex gap-2">
+        <select
+          value={presetIndex}
+          onChange={(e) => setPresetIndex(parseInt(e.target.value))}
+          className="flex-1 px-3 py-2 bg-slate-800/50 border border-slate-600/50 rounded-lg text-white text-sm"
+        >
+          {ARTBOARD_PRESETS.map((preset, i) => (
+            <option key={preset.name} value={i}>
+              {preset.name} ({preset.width}×{preset.height})
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => onAddArtboard(ARTBOARD_PRESETS[presetIndex])}
+          className="p-2 bg-gradient-to-br from-sky-500 to-indigo-600 text-white rounded-lg shadow-lg hover:from-sky-600 hover:to-indigo-700 transition-all duration-200"
+          title="Add Artboard"
+        >
+          <Plus size={16} />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,42 @@
 import React, { useRef, useCallback, useEffect, useState } from 'react';
-import { CanvasObject, Point, Tool } from '../types';
-import { getBoundingBox, pointInBoundingBox, snapToGrid } from '../utils/geometry';
+import { Artboard, BoundingBox, CanvasObject, CurveObject, Gradient, Guide, Matrix, PathObject, Point, SnapSettings, Tool } from '../types';
+import {
+  applyMatrix,
+  distance,
+  getBoundingBox,
+  invertMatrix,
+  matrixAroundPoint,
+  pointInBoundingBox,
+  findObjectAt,
+  rotationMatrix,
+  scaleMatrix,
+  snapToGrid,
+  transformToMatrix
+} from '../utils/geometry';
+import { applyParentMatrix, losesSkew } from '../utils/objects';
+import { SNAP_DISTANCE, SnapGuide, getSnapTargets, snapBox, snapPoint } from '../utils/snapping';
+import { getBoxesBounds } from '../utils/align';
+import { getObjectsLabel } from '../utils/history';
+import { isTextEntryTarget } from '../utils/keyboard';
+import { RULER_SIZE, Rulers } from './Rulers';
+import { getGradientAttributes } from '../utils/export';
+import {
+  BezierNode,
+  NodeHandle,
+  PathNode,
+  bezierNodesToSegments,
+  deleteNode,
+  findNearestOnPath,
+  getPathNodes,
+  insertNode,
+  moveNodeAnchor,
+  moveNodeHandle,
+  polylineToSegments,
+  segmentsToPathData,
+  smoothCurveToSegments,
+  toEditableSegments,
+  toggleNodeSmooth
+} from '../utils/path';
 
 interface CanvasProps {
   objects: CanvasObject[];
@@ -8,24 +44,165 @@ interface CanvasProps {
   tool: Tool;
   zoom: number;
   pan: Point;
+  snapSettings: SnapSettings;
+  guides: Guide[];
+  artboards: Artboard[];
+  activeArtboardId: string;
+  showGrid: boolean;
+  showRulers: boolean;
   onObjectSelect: (objectIds: string[]) => void;
   onObjectUpdate: (objectId: string, updates: Partial<CanvasObject>) => void;
   onAddObject: (obj: Omit<CanvasObject, 'id'>) => void;
   onPanChange: (pan: Point) => void;
   onZoomChange: (zoom: number) => void;
+  onAddGuide: (orientation: Guide['orientation'], position: number) => void;
+  onMoveGuide: (guideId: string, position: number) => void;
+  onRemoveGuide: (guideId: string) => void;
+  // Everything between these becomes a single undo step
+  onBeginTransaction: (label: string) => void;
+  onEndTransaction: () => void;
 }
 
+// Nodes of a path or curve in its local space. Curve nodes are its
+// Catmull-Rom points, whose handles are implied by their neighbours.
+const getEditableNodes = (obj: PathObject | CurveObject): PathNode[] => {
+  if (obj.type === 'curve') {
+    return obj.points.map((anchor, index) => ({ index, anchor, handleIn: null, handleOut: null, smooth: true }));
+  }
+  return getPathNodes(toEditableSegments(obj.segments));
+};
+
+const SHAPE_TOOLS = ['rect', 'circle', 'line', 'ellipse', 'polygon', 'star', 'triangle'];
+
+// Guides are drawn far enough out to cross any visible part of the canvas
+const GUIDE_EXTENT = 100000;
+
+// A guide being dragged out of a ruler (no id yet) or moved
+interface GuideDrag {
+  id: string | null;
+  orientation: Guide['orientation'];
+  position: number;
+}
+
+type TransformHandle = 'nw' | 'n' | 'ne' | 'e' | 'se' | 's' | 'sw' | 'w' | 'rotate';
+
+interface TransformDrag {
+  handle: TransformHandle;
+  start: Point;
+  box: BoundingBox;
+  originals: CanvasObject[];
+  // Set when an edge handle is dragged with Ctrl/Cmd, which slants the
+  // selection along that edge instead of resizing it
+  skew: boolean;
+}
+
+const EDGE_HANDLES: TransformHandle[] = ['n', 'e', 's', 'w'];
+
+// Any slant, to find whether the selection can take one
+const SKEW_PROBE: Matrix = { a: 1, b: 0, c: 0.5, d: 1, e: 0, f: 0 };
+
+const HANDLE_CURSORS: Record<TransformHandle, string> = {
+  nw: 'nwse-resize',
+  n: 'ns-resize',
+  ne: 'nesw-resize',
+  e: 'ew-resize',
+  se: 'nwse-resize',
+  s: 'ns-resize',
+  sw: 'nesw-resize',
+  w: 'ew-resize',
+  rotate: 'grab'
+};
+
+// Resize handles on the corners and edge midpoints of the selection box,
+// with the rotation handle a fixed screen distance above the top edge
+const getTransformHandles = (box: BoundingBox, zoom: number): { handle: TransformHandle; point: Point }[] => {
+  const { x, y, width, height } = box;
+  const cx = x + width / 2;
+  const cy = y + height / 2;
+  return [
+    { handle: 'nw', point: { x, y } },
+    { handle: 'n', point: { x: cx, y } },
+    { handle: 'ne', point: { x: x + width, y } },
+    { handle: 'e', point: { x: x + width, y: cy } },
+    { handle: 'se', point: { x: x + width, y: y + height } },
+    { handle: 's', point: { x: cx, y: y + height } },
+    { handle: 'sw', point: { x, y: y + height } },
+    { handle: 'w', point: { x, y: cy } },
+    { handle: 'rotate', point: { x: cx, y: y - 24 / zoom } }
+  ];
+};
+
+// Canvas-space matrix for a handle dragged from `drag.start` to `point`.
+// Resizing and skewing pivot on the opposite handle (or the center when
+// `fromCenter`); `constrain` keeps proportions, or snaps rotation and skew
+// angles to 15° steps.
+const getTransformDragMatrix = (drag: TransformDrag, point: Point, constrain: boolean, fromCenter: boolean): Matrix => {
+  const { box, handle, start } = drag;
+  const center = { x: box.x + box.width / 2, y: box.y + box.height / 2 };
+  const step = Math.PI / 12;
+
+  if (handle === 'rotate') {
+    const angle = Math.atan2(point.y - center.y, point.x - center.x) - Math.atan2(start.y - center.y, start.x - center.x);
+    return matrixAroundPoint(rotationMatrix(constrain ? Math.round(angle / step) * step : angle), center);
+  }
+
+  const handlePoint = getTransformHandles(box, 1).find(h => h.handle === handle)!.point;
+  const origin = fromCenter ? center : { x: 2 * center.x - handlePoint.x, y: 2 * center.y - handlePoint.y };
+
+  if (drag.skew) {
+    // The dragged edge slides along itself while the pivot edge stays put
+    const horizontalEdge = handle === 'n' || handle === 's';
+    const along = horizontalEdge ? point.x - start.x : point.y - start.y;
+    const across = horizontalEdge ? handlePoint.y - origin.y : handlePoint.x - origin.x;
+    let angle = Math.atan2(along, Math.abs(across)) * Math.sign(across || 1);
+    if (constrain) angle = Math.round(angle / step) * step;
+    // Slanting towards a right angle would flatten the selection
+    const shear = Math.tan(Math.max(-1.5, Math.min(1.5, angle)));
+    return matrixAroundPoint(
+      horizontalEdge ? { a: 1, b: 0, c: shear, d: 1, e: 0, f: 0 } : { a: 1, b: shear, c: 0, d: 1, e: 0, f: 0 },
+      origin
+    );
+  }
+  const factor = (moved: number, from: number, to: number) => Math.abs(to - from) < 1e-9 ? 1 : (moved - from) / (to - from);
+  // Collapsing to zero would make the objects' matrices singular
+  const nonZero = (scale: number) => Math.abs(scale) < 0.01 ? (scale < 0 ? -0.01 : 0.01) : scale;
+
+  const movesX = handle.includes('e') || handle.includes('w');
+  const movesY = handle.includes('n') || handle.includes('s');
+  let scaleX = movesX ? factor(handlePoint.x + point.x - start.x, origin.x, handlePoint.x) : 1;
+  let scaleY = movesY ? factor(handlePoint.y + point.y - start.y, origin.y, handlePoint.y) : 1;
+
+  if (constrain) {
+    const uniform = movesX && movesY ? Math.max(Math.abs(scaleX), Math.abs(scaleY)) : Math.abs(movesX ? scaleX : scaleY);
+    scaleX = (Math.sign(scaleX) || 1) * uniform;
+    scaleY = (Math.sign(scaleY) || 1) * uniform;
+  }
+
+  return matrixAroundPoint(scaleMatrix(nonZero(scaleX), nonZero(scaleY)), origin);
+};
+
 export const Canvas: React.FC<CanvasProps> = ({
   objects,
   selectedObjectIds,
   tool,
   zoom,
   pan,
+  snapSettings,
+  guides,
+  artboards,
+  activeArtboardId,
+  showGrid,
+  showRulers,
   onObjectSelect,
   onObjectUpdate,
   onAddObject,
   onPanChange,
-  onZoomChange
+  onZoomChange,
+  onAddGuide,
+  onMoveGuide,
+  onRemoveGuide,
+  onBeginTransaction,
+  onEndTransaction
 }) => {
   const canvasRef = useRef<HTMLDivElement>(null);
   const svgRef = useRef<SVGSVGElement>(null);
@@ -44,8 +221,11 @@ export const Canvas: React.FC<CanvasProps> = ({
   const [textPosition, setTextPosition] = useState<Point>({ x: 0, y: 0 });
   
   // Pen tool state
-  const [penPath, setPenPath] = useState<Point[]>([]);
+  const [penNodes, setPenNodes] = useState<BezierNode[]>([]);
   const [isDrawingPath, setIsDrawingPath] = useState(false);
+  const [isDraggingPenHandle, setIsDraggingPenHandle] = useState(false);
+  const [isClosingPenPath, setIsClosingPenPath] = useState(false);
+  const [penCursor, setPenCursor] = useState<Point | null>(null);
   const [penSettings, setPenSettings] = useState({
     color: '#1E40AF',
     width: 2
@@ -64,6 +244,32 @@ export const Canvas: React.FC<CanvasProps> = ({
   const [curvePoints, setCurvePoints] = useState<Point[]>([]);
   const [isDrawingCurve, setIsDrawingCurve] = useState(false);
 
+  // Direct selection (node) tool state
+  const [activeNode, setActiveNode] = useState<{ objectId: string; index: number } | null>(null);
+  const [nodeDrag, setNodeDrag] = useState<{ objectId: string; index: number; part: 'anchor' | NodeHandle } | null>(null);
+
+  // The path or curve whose nodes the direct selection tool is editing
+  const nodeTarget = tool === 'node' && selectedObjectIds.length === 1
+    ? objects.find((obj): obj is PathObject | CurveObject =>
+        obj.id === selectedObjectIds[0] && (obj.type === 'path' || obj.type === 'curve') && !obj.locked)
+    : undefined;
+
+  // Selection tool transform state
+  const [transformDrag, setTransformDrag] = useState<TransformDrag | null>(null);
+
+  // Combined box of the selection, which the transform handles surround
+  const selectedObjects = objects.filter(obj => selectedObjectIds.includes(obj.id));
+  const selectionBounds = tool === 'select' && selectedObjects.length > 0
+    ? getBoxesBounds(selectedObjects.map(obj => getBoundingBox(obj)))
+    : null;
+
+  // Smart guides shown while something is snapped
+  const [snapGuides, setSnapGuides] = useState<SnapGuide[]>([]);
+
+  // Ruler guide being dragged, and the cursor position the rulers track
+  const [guideDrag, setGuideDrag] = useState<GuideDrag | null>(null);
+  const [cursorPoint, setCursorPoint] = useState<Point | null>(null);
+
   // Previous tool ref to detect tool changes
   const prevToolRef = useRef<Tool>(tool);
 
@@ -77,6 +283,21 @@ export const Canvas: React.FC<CanvasProps> = ({
     };
   }, [pan, zoom]);
 
+  // Snaps a point being placed or dragged to the objects other than
+  // `excludeIds` and to the grid, showing the guides that caused it
+  const snapCanvasPoint = useCallback((point: Point, excludeIds: string[] = []): Point => {
+    if (!snapSettings.smartGuides && !snapSettings.grid) return point;
+
+    const result = snapPoint(point, getSnapTargets(objects, excludeIds, guides), snapSettings, SNAP_DISTANCE / zoom);
+    setSnapGuides(result.guides);
+    return { x: point.x + result.offset.x, y: point.y + result.offset.y };
+  }, [objects, guides, snapSettings, zoom]);
+
+  const handleGuideDragStart = useCallback((orientation: Guide['orientation'], e: React.MouseEvent) => {
+    const point = getCanvasPoint(e.clientX, e.clientY);
+    setGuideDrag({ id: null, orientation, position: Math.round(orientation === 'horizontal' ? point.y : point.x) });
+  }, [getCanvasPoint]);
+
   const getScreenPoint = useCallback((canvasPoint: Point): Point => {
     if (!canvasRef.current) return { x: 0, y: 0 };
     
@@ -95,7 +316,7 @@ export const Canvas: React.FC<CanvasProps> = ({
     // Include the new point if provided (for live drawing)
     const pointsToCheck: Point[] = [];
     if (newPoint) pointsToCheck.push(newPoint);
-    if (penPath.length > 0) pointsToCheck.push(...penPath);
+    if (penNodes.length > 0) pointsToCheck.push(...penNodes.map(node => node.anchor));
     if (brushStrokes.length > 0) pointsToCheck.push(...brushStrokes);
     if (curvePoints.length > 0) pointsToCheck.push(...curvePoints);
 
@@ -142,7 +363,7 @@ export const Canvas: React.FC<CanvasProps> = ({
       
       setCanvasSize({ width: newWidth, height: newHeight });
     }
-  }, [objects, previewObject, penPath, brushStrokes, curvePoints, canvasSize]);
+  }, [objects, previewObject, penNodes, brushStrokes, curvePoints, canvasSize]);
 
   // Update canvas size when objects change
   useEffect(() => {
@@ -155,7 +376,7 @@ export const Canvas: React.FC<CanvasProps> = ({
     
     if (prevTool !== tool) {
       // Save any active drawing from the previous tool
-      if (prevTool === 'pen' && penPath.length > 1) {
+      if (prevTool === 'pen' && penNodes.length > 1) {
         finishPenPath();
       } else if (prevTool === 'brush' && brushStrokes.length > 1) {
         finishBrushStroke();
@@ -163,6 +384,10 @@ export const Canvas: React.FC<CanvasProps> = ({
         finishCurve();
       }
       
+      if (prevTool === 'node') {
+        setActiveNode(null);
+      }
+
       // Clear text editing when switching tools
       if (prevTool === 'text' && editingTextId) {
         finishTextEditing();
@@ -173,21 +398,43 @@ export const Canvas: React.FC<CanvasProps> = ({
     }
   }, [tool]);
 
+  const deleteActiveNode = useCallback(() => {
+    const target = activeNode && objects.find(obj => obj.id === activeNode.objectId);
+    if (!target) return;
+
+    if (target.type === 'path') {
+      const segments = deleteNode(toEditableSegments(target.segments), activeNode.index);
+      // Deleting the last node removes the path, like the eraser does
+      onObjectUpdate(target.id, segments.length > 0 ? { segments } : { segments, visible: false });
+    } else if (target.type === 'curve' && target.points.length > 2) {
+      onObjectUpdate(target.id, { points: target.points.filter((_, i) => i !== activeNode.index) });
+    }
+    setActiveNode(null);
+  }, [activeNode, objects, onObjectUpdate]);
+
   // Keyboard event handlers
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      // Text being edited on the canvas handles its own keys
+      if (isTextEntryTarget(e.target)) return;
+
       if (e.code === 'Space' && !isSpacePressed && !editingTextId) {
         setIsSpacePressed(true);
         e.preventDefault();
       }
-      
-      // Handle text editing
-      if (editingTextId && e.key === 'Enter' && !e.shiftKey) {
-        finishTextEditing();
+
+      // Enter or Escape ends the pen path, leaving it open
+      if (tool === 'pen' && isDrawingPath && (e.key === 'Enter' || e.key === 'Escape')) {
+        finishPenPath();
         e.preventDefault();
-      } else if (editingTextId && e.key === 'Escape') {
-        cancelTextEditing();
+      }
+
+      // Handle node editing
+      if (tool === 'node' && activeNode && (e.key === 'Delete' || e.key === 'Backspace')) {
+        deleteActiveNode();
         e.preventDefault();
+      } else if (tool === 'node' && e.key === 'Escape') {
+        setActiveNode(null);
       }
     };
 
@@ -205,36 +452,10 @@ export const Canvas: React.FC<CanvasProps> = ({
       window.removeEventListener('keydown', handleKeyDown);
       window.removeEventListener('keyup', handleKeyUp);
     };
-  }, [isSpacePressed, editingTextId]);
-
-  // Generate smooth curve using Catmull-Rom spline
-  const generateSmoothCurve = (points: Point[]): string => {
-    if (points.length < 2) return '';
-    if (points.length === 2) {
-      return `M ${points[0].x} ${points[0].y} L ${points[1].x} ${points[1].y}`;
-    }
+  }, [isSpacePressed, editingTextId, tool, activeNode, deleteActiveNode, isDrawingPath, penNodes]);
 
-    let path = `M ${points[0].x} ${points[0].y}`;
-    
-    for (let i = 0; i < points.length - 1; i++) {
-      const p0 = points[i - 1] || points[i];
-      const p1 = points[i];
-      const p2 = points[i + 1];
-      const p3 = points[i + 2] || points[i + 1];
-
-      const cp1x = p1.x + (p2.x - p0.x) / 6;
-      const cp1y = p1.y + (p2.y - p0.y) / 6;
-      const cp2x = p2.x - (p3.x - p1.x) / 6;
-      const cp2y = p2.y - (p3.y - p1.y) / 6;
-
-      path += ` C ${cp1x} ${cp1y}, ${cp2x} ${cp2y}, ${p2.x} ${p2.y}`;
-    }
-
-    return path;
-  };
-
-  const finishPenPath = useCallback(() => {
-    if (penPath.length > 1) {
+  const finishPenPath = useCallback((closed: boolean = false) => {
+    if (penNodes.length > 1) {
       const pathObject: Omit<CanvasObject, 'id'> = {
         type: 'path',
         transform: { x: 0, y: 0, rotation: 0, scaleX: 1, scaleY: 1 },
@@ -250,14 +471,15 @@ export const Canvas: React.FC<CanvasProps> = ({
         visible: true,
         locked: false,
         selected: false,
-        points: [...penPath],
-        closed: false
+        segments: bezierNodesToSegments(penNodes, closed)
       };
       onAddObject(pathObject);
     }
-    setPenPath([]);
+    setPenNodes([]);
     setIsDrawingPath(false);
-  }, [penPath, penSettings, onAddObject]);
+    setIsDraggingPenHandle(false);
+    setIsClosingPenPath(false);
+  }, [penNodes, penSettings, onAddObject]);
 
   const finishBrushStroke = useCallback(() => {
     if (brushStrokes.length > 1) {
@@ -276,8 +498,7 @@ export const Canvas: React.FC<CanvasProps> = ({
         visible: true,
         locked: false,
         selected: false,
-        points: [...brushStrokes],
-        closed: false
+        segments: polylineToSegments(brushStrokes)
       };
       onAddObject(pathObject);
     }
@@ -349,6 +570,74 @@ export const Canvas: React.FC<CanvasProps> = ({
     });
   };
 
+  // Anchors take precedence over handles, handles over the outline; a
+  // double-click on the outline inserts a node, Alt-click converts one
+  const handleNodeTool = useCallback((e: React.MouseEvent, point: Point) => {
+    const hitRadius = 6 / zoom;
+
+    if (nodeTarget) {
+      const matrix = transformToMatrix(nodeTarget.transform);
+      const isHit = (p: Point) => {
+        const canvasPoint = applyMatrix(p, matrix);
+        return Math.hypot(canvasPoint.x - point.x, canvasPoint.y - point.y) <= hitRadius;
+      };
+      const nodes = getEditableNodes(nodeTarget);
+
+      const hitNode = nodes.find(node => isHit(node.anchor));
+      if (hitNode) {
+        if (e.altKey && nodeTarget.type === 'path') {
+          onObjectUpdate(nodeTarget.id, {
+            segments: toggleNodeSmooth(toEditableSegments(nodeTarget.segments), hitNode.index)
+          });
+        } else {
+          onBeginTransaction('Edit Path');
+          setNodeDrag({ objectId: nodeTarget.id, index: hitNode.index, part: 'anchor' });
+        }
+        setActiveNode({ objectId: nodeTarget.id, index: hitNode.index });
+        return;
+      }
+
+      for (const node of nodes) {
+        const part: NodeHandle | null =
+          node.handleIn && isHit(node.handleIn) ? 'in' :
+          node.handleOut && isHit(node.handleOut) ? 'out' : null;
+        if (part) {
+          onBeginTransaction('Edit Path');
+          setNodeDrag({ objectId: nodeTarget.id, index: node.index, part });
+          setActiveNode({ objectId: nodeTarget.id, index: node.index });
+          return;
+        }
+      }
+
+      if (e.detail === 2) {
+        const local = applyMatrix(point, invertMatrix(matrix));
+        const segments = nodeTarget.type === 'path'
+          ? toEditableSegments(nodeTarget.segments)
+          : smoothCurveToSegments(nodeTarget.points);
+        const nearest = findNearestOnPath(segments, local);
+
+        if (nearest && isHit(nearest.point)) {
+          if (nodeTarget.type === 'path') {
+            const inserted = insertNode(segments, nearest.index, nearest.t);
+            onObjectUpdate(nodeTarget.id, { segments: inserted.segments });
+            setActiveNode({ objectId: nodeTarget.id, index: inserted.index });
+          } else {
+            // Curve segment k runs from point k - 1 to point k
+            const points = [...nodeTarget.points];
+            points.splice(nearest.index, 0, nearest.point);
+            onObjectUpdate(nodeTarget.id, { points });
+            setActiveNode({ objectId: nodeTarget.id, index: nearest.index });
+          }
+          return;
+        }
+      }
+    }
+
+    const clickedObject = findObjectAt(point, objects, zoom);
+    onObjectSelect(clickedObject ? [clickedObject.id] : []);
+    setActiveNode(null);
+  }, [nodeTarget, zoom, objects, onObjectUpdate, onObjectSelect, onBeginTransaction]);
+
   const handleMouseDown = useCallback((e: React.MouseEvent) => {
     const point = getCanvasPoint(e.clientX, e.clientY);
     
@@ -362,23 +651,34 @@ export const Canvas: React.FC<CanvasProps> = ({
     }
 
     if (tool === 'pen') {
-      if (!isDrawingPath) {
-        setPenPath([point]);
-        setIsDrawingPath(true);
+      const hitRadius = 6 / zoom;
+      const first = penNodes[0];
+      const last = penNodes[penNodes.length - 1];
+
+      if (isDrawingPath && penNodes.length > 1 && distance(point, first.anchor) <= hitRadius) {
+        // Clicking the first node closes the path; dragging first reshapes it
+        setIsClosingPenPath(true);
+        setIsDraggingPenHandle(true);
+      } else if (isDrawingPath && distance(point, last.anchor) <= hitRadius) {
+        // Alt-clicking the last node retracts its outgoing handle
+        if (e.altKey) {
+          setPenNodes(prev => prev.map((node, i) => i === prev.length - 1 ? { ...node, handleOut: node.anchor } : node));
+        }
       } else {
-        setPenPath(prev => {
-          const newPath = [...prev, point];
-          updateCanvasSize(point);
-          return newPath;
-        });
+        const anchor = snapCanvasPoint(point);
+        setPenNodes(prev => [...(isDrawingPath ? prev : []), { anchor, handleIn: anchor, handleOut: anchor }]);
+        setIsDrawingPath(true);
+        setIsDraggingPenHandle(true);
+        updateCanvasSize(anchor);
       }
       return;
     }
 
     if (tool === 'curve') {
+      const snapped = snapCanvasPoint(point);
       setCurvePoints(prev => {
-        const newPoints = [...prev, point];
-        updateCanvasSize(point);
+        const newPoints = [...prev, snapped];
+        updateCanvasSize(snapped);
         return newPoints;
       });
       setIsDrawingCurve(true);
@@ -393,24 +693,60 @@ export const Canvas: React.FC<CanvasProps> = ({
     }
 
     if (tool === 'eraser') {
+      onBeginTransaction('Erase');
       handleEraserTool(point);
       return;
     }
 
+    if (tool === 'node') {
+      handleNodeTool(e, point);
+      return;
+    }
+
     if (tool === 'select') {
-      const clickedObject = objects.find(obj => {
-        const bbox = getBoundingBox(obj);
-        return pointInBoundingBox(point, bbox);
-      });
+      const handleHit = selectionBounds && getTransformHandles(selectionBounds, zoom)
+        .find(({ point: handlePoint }) => distance(handlePoint, point) <= 6 / zoom);
+
+      if (selectionBounds && handleHit) {
+        const originals = selectedObjects.filter(obj => !obj.locked);
+        // Text and images cannot be slanted, so with any selected the
+        // modifier is ignored and the handle resizes
+        const skew = EDGE_HANDLES.includes(handleHit.handle) && (e.ctrlKey || e.metaKey)
+          && !originals.some(obj => losesSkew(obj, SKEW_PROBE));
+        const action = handleHit.handle === 'rotate' ? 'Rotate' : skew ? 'Skew' : 'Scale';
+        onBeginTransaction(getObjectsLabel(action, originals.length));
+        setTransformDrag({
+          handle: handleHit.handle,
+          start: point,
+          box: selectionBounds,
+          originals,
+          skew
+        });
+        return;
+      }
+
+      const guideHit = guides.find(guide =>
+        Math.abs((guide.orientation === 'horizontal' ? point.y : point.x) - guide.position) <= 4 / zoom
+      );
+      if (guideHit) {
+        setGuideDrag({ ...guideHit });
+        return;
+      }
+
+      const clickedObject = findObjectAt(point, objects, zoom);
 
       if (clickedObject) {
+        let movingCount = selectedObjectIds.length;
         if (!selectedObjectIds.includes(clickedObject.id)) {
           if (e.shiftKey) {
             onObjectSelect([...selectedObjectIds, clickedObject.id]);
+            movingCount++;
           } else {
             onObjectSelect([clickedObject.id]);
+            movingCount = 1;
           }
         }
+        onBeginTransaction(getObjectsLabel('Move', movingCount));
         setIsDragging(true);
         setDragStart(point);
       } else {
@@ -425,9 +761,9 @@ export const Canvas: React.FC<CanvasProps> = ({
     }
 
     // Drawing tools
-    if (['rect', 'circle', 'line', 'ellipse', 'polygon', 'star', 'triangle'].includes(tool)) {
+    if (SHAPE_TOOLS.includes(tool)) {
       setIsDrawing(true);
-      setDrawingStart(point);
+      setDrawingStart(snapCanvasPoint(point));
     } else if (tool === 'text') {
       // Create new text object and start editing
       const textObject: Omit<CanvasObject, 'id'> = {
@@ -469,10 +805,18 @@ export const Canvas: React.FC<CanvasProps> = ({
         }
       }, 100);
     }
-  }, [tool, objects, selectedObjectIds, getCanvasPoint, onObjectSelect, onAddObject, isSpacePressed, isDrawingPath, editingTextId, getScreenPoint, updateCanvasSize]);
+  }, [tool, objects, selectedObjectIds, getCanvasPoint, onObjectSelect, onAddObject, isSpacePressed, isDrawingPath, editingTextId, getScreenPoint, updateCanvasSize, nodeTarget, zoom, onObjectUpdate, penNodes, selectionBounds, selectedObjects, snapCanvasPoint, guides, onBeginTransaction, handleNodeTool]);
 
   const handleMouseMove = useCallback((e: React.MouseEvent) => {
-    const point = getCanvasPoint(e.clientX, e.clientY);
+    const rawPoint = getCanvasPoint(e.clientX, e.clientY);
+    // Shapes being drawn follow the snapped cursor
+    const point = isDrawing && SHAPE_TOOLS.includes(tool) ? snapCanvasPoint(rawPoint) : rawPoint;
+    setCursorPoint(rawPoint);
+
+    if (guideDrag) {
+      setGuideDrag({ ...guideDrag, position: Math.round(guideDrag.orientation === 'horizontal' ? rawPoint.y : rawPoint.x) });
+      return;
+    }
 
     // Don't handle mouse events if editing text
     if (editingTextId) return;
@@ -485,12 +829,23 @@ export const Canvas: React.FC<CanvasProps> = ({
       return;
     }
 
-    if (tool === 'pen' && isDrawingPath && e.buttons === 1) {
-      setPenPath(prev => {
-        const newPath = [...prev, point];
+    if (tool === 'pen' && isDrawingPath) {
+      setPenCursor(point);
+
+      // Dragging pulls symmetric handles out of the node; Alt moves only the
+      // outgoing one, breaking the node into a corner
+      if (isDraggingPenHandle && e.buttons === 1) {
+        const dragIndex = isClosingPenPath ? 0 : penNodes.length - 1;
+        setPenNodes(prev => prev.map((node, i) => {
+          if (i !== dragIndex) return node;
+          const mirrored = { x: 2 * node.anchor.x - point.x, y: 2 * node.anchor.y - point.y };
+          // When closing, the drag shapes the curve arriving at the first node
+          return isClosingPenPath
+            ? { ...node, handleIn: mirrored, handleOut: e.altKey ? node.handleOut : point }
+            : { ...node, handleOut: point, handleIn: e.altKey ? node.handleIn : mirrored };
+        }));
         updateCanvasSize(point);
-        return newPath;
-      });
+      }
       return;
     }
 
@@ -508,10 +863,61 @@ export const Canvas: React.FC<CanvasProps> = ({
       return;
     }
 
-    if (isDragging && tool === 'select' && dragStart) {
+    if (tool === 'node' && nodeDrag && e.buttons === 1) {
+      const target = objects.find(obj => obj.id === nodeDrag.objectId);
+      if (target) {
+        const local = applyMatrix(snapCanvasPoint(point, [target.id]), invertMatrix(transformToMatrix(target.transform)));
+        if (target.type === 'path') {
+          const segments = toEditableSegments(target.segments);
+          onObjectUpdate(target.id, {
+            segments: nodeDrag.part === 'anchor'
+              ? moveNodeAnchor(segments, nodeDrag.index, local)
+              : moveNodeHandle(segments, nodeDrag.index, nodeDrag.part, local, e.altKey)
+          });
+        } else if (target.type === 'curve') {
+          onObjectUpdate(target.id, { points: target.points.map((p, i) => i === nodeDrag.index ? local : p) });
+        }
+      }
+      return;
+    }
+
+    // Transforms are recomputed from the objects as they were when the drag
+    // started, so rounding does not accumulate
+    if (transformDrag && e.buttons === 1) {
+      // Resize handles snap where they are dragged to; rotation does not snap
+      let target = point;
+      if (transformDrag.handle !== 'rotate') {
+        const handlePoint = getTransformHandles(transformDrag.box, zoom).find(h => h.handle === transformDrag.handle)!.point;
+        const dragged = { x: handlePoint.x + point.x - transformDrag.start.x, y: handlePoint.y + point.y - transformDrag.start.y };
+        const snapped = snapCanvasPoint(dragged, transformDrag.originals.map(obj => obj.id));
+        target = { x: point.x + snapped.x - dragged.x, y: point.y + snapped.y - dragged.y };
+      }
+      let matrix = getTransformDragMatrix(transformDrag, target, e.shiftKey, e.altKey);
+      // Text and images cannot be skewed, so a resize that would skew a
+      // rotated one keeps proportions instead
+      if (transformDrag.originals.some(original => losesSkew(original, matrix))) {
+        matrix = getTransformDragMatrix(transformDrag, target, true, e.altKey);
+      }
+      transformDrag.originals.forEach(original => {
+        onObjectUpdate(original.id, applyParentMatrix(original, matrix));
+      });
+      return;
+    }
+
+    if (isDragging && tool === 'select' && dragStart && e.buttons === 1) {
       if (selectedObjectIds.length > 0) {
-        const dx = point.x - dragStart.x;
-        const dy = point.y - dragStart.y;
+        let dx = point.x - dragStart.x;
+        let dy = point.y - dragStart.y;
+
+        // Snap the selection's box; whatever the snap absorbs stays in
+        // dragStart so the objects break free once the cursor moves on
+        if (selectionBounds && (snapSettings.smartGuides || snapSettings.grid)) {
+          const moved = { ...selectionBounds, x: selectionBounds.x + dx, y: selectionBounds.y + dy };
+          const snap = snapBox(moved, getSnapTargets(objects, selectedObjectIds, guides), snapSettings, SNAP_DISTANCE / zoom);
+          dx += snap.offset.x;
+          dy += snap.offset.y;
+          setSnapGuides(snap.guides);
+        }
         
         selectedObjectIds.forEach(id => {
           const obj = objects.find(o => o.id === id);
@@ -526,13 +932,13 @@ export const Canvas: React.FC<CanvasProps> = ({
             updateCanvasSize({ x: newTransform.x, y: newTransform.y });
           }
         });
-        setDragStart(point);
+        setDragStart({ x: dragStart.x + dx, y: dragStart.y + dy });
       } else if (selectionBox) {
         setSelectionBox({ ...selectionBox, end: point });
       }
     }
 
-    if (isDrawing && drawingStart && ['rect', 'circle', 'line', 'ellipse', 'polygon', 'star', 'triangle'].includes(tool)) {
+    if (isDrawing && drawingStart && SHAPE_TOOLS.includes(tool)) {
       const width = Math.abs(point.x - drawingStart.x);
       const height = Math.abs(point.y - drawingStart.y);
       const x = Math.min(point.x, drawingStart.x);
@@ -605,8 +1011,7 @@ export const Canvas: React.FC<CanvasProps> = ({
           visible: true,
           locked: false,
           selected: false,
-          points,
-          closed: true
+          segments: polylineToSegments(points, true)
         } as CanvasObject;
       } else if (tool === 'star') {
         const centerX = x + width/2;
@@ -632,17 +1037,38 @@ export const Canvas: React.FC<CanvasProps> = ({
           visible: true,
           locked: false,
           selected: false,
-          points,
-          closed: true
+          segments: polylineToSegments(points, true)
         } as CanvasObject;
       }
 
       setPreviewObject(preview);
     }
-  }, [isDragging, isDrawing, tool, dragStart, drawingStart, selectedObjectIds, objects, getCanvasPoint, pan, onPanChange, onObjectUpdate, isSpacePressed, selectionBox, isBrushing, isDrawingPath, editingTextId, updateCanvasSize]);
-
-  const handleMouseUp = useCallback((e: React.MouseEvent) => {
-    const point = getCanvasPoint(e.clientX, e.clientY);
+  }, [isDragging, isDrawing, tool, dragStart, drawingStart, selectedObjectIds, objects, getCanvasPoint, pan, onPanChange, onObjectUpdate, isSpacePressed, selectionBox, isBrushing, isDrawingPath, editingTextId, updateCanvasSize, nodeDrag, penNodes, isDraggingPenHandle, isClosingPenPath, transformDrag, snapCanvasPoint, selectionBounds, snapSettings, zoom, guideDrag, guides]);
+
+  const handleMouseUp = useCallback((e: React.MouseEvent | MouseEvent) => {
+    const rawPoint = getCanvasPoint(e.clientX, e.clientY);
+    const point = isDrawing && SHAPE_TOOLS.includes(tool) ? snapCanvasPoint(rawPoint) : rawPoint;
+    setSnapGuides([]);
+    onEndTransaction();
+
+    // Dropping a guide back onto its ruler removes it
+    if (guideDrag && canvasRef.current) {
+      const rect = canvasRef.current.getBoundingClientRect();
+      const onRuler = guideDrag.orientation === 'horizontal'
+        ? e.clientY - rect.top < RULER_SIZE
+        : e.clientX - rect.left < RULER_SIZE;
+      if (guideDrag.id) {
+        if (onRuler) {
+          onRemoveGuide(guideDrag.id);
+        } else {
+          onMoveGuide(guideDrag.id, guideDrag.position);
+        }
+      } else if (!onRuler) {
+        onAddGuide(guideDrag.orientation, guideDrag.position);
+      }
+      setGuideDrag(null);
+      return;
+    }
 
     // Don't handle mouse events if editing text
     if (editingTextId) return;
@@ -652,6 +1078,25 @@ export const Canvas: React.FC<CanvasProps> = ({
       return;
     }
 
+    if (nodeDrag) {
+      setNodeDrag(null);
+      return;
+    }
+
+    if (transformDrag) {
+      setTransformDrag(null);
+      updateCanvasSize();
+      return;
+    }
+
+    if (tool === 'pen' && isDraggingPenHandle) {
+      setIsDraggingPenHandle(false);
+      if (isClosingPenPath) {
+        finishPenPath(true);
+      }
+      return;
+    }
+
     if (selectionBox && tool === 'select') {
       const box = {
         x: Math.min(selectionBox.start.x, selectionBox.end.x),
@@ -678,7 +1123,7 @@ export const Canvas: React.FC<CanvasProps> = ({
       setSelectionBox(null);
     }
 
-    if (isDrawing && drawingStart && ['rect', 'circle', 'line', 'ellipse', 'polygon', 'star', 'triangle'].includes(tool)) {
+    if (isDrawing && drawingStart && SHAPE_TOOLS.includes(tool)) {
       const width = Math.abs(point.x - drawingStart.x);
       const height = Math.abs(point.y - drawingStart.y);
       const x = Math.min(point.x, drawingStart.x);
@@ -746,8 +1191,7 @@ export const Canvas: React.FC<CanvasProps> = ({
             visible: true,
             locked: false,
             selected: false,
-            points,
-            closed: true
+            segments: polylineToSegments(points, true)
           };
           onAddObject(triangleObject);
         } else if (tool === 'star') {
@@ -773,8 +1217,7 @@ export const Canvas: React.FC<CanvasProps> = ({
             visible: true,
             locked: false,
             selected: false,
-            points,
-            closed: true
+            segments: polylineToSegments(points, true)
           };
           onAddObject(starObject);
         }
@@ -787,7 +1230,40 @@ export const Canvas: React.FC<CanvasProps> = ({
     setDrawingStart(null);
     setPreviewObject(null);
     setSelectionBox(null);
-  }, [isDrawing, drawingStart, tool, getCanvasPoint, onAddObject, selectionBox, objects, selectedObjectIds, onObjectSelect, isBrushing, finishBrushStroke, editingTextId]);
+  }, [isDrawing, drawingStart, tool, getCanvasPoint, onAddObject, selectionBox, objects, selectedObjectIds, onObjectSelect, isBrushing, finishBrushStroke, editingTextId, nodeDrag, isDraggingPenHandle, isClosingPenPath, finishPenPath, transformDrag, updateCanvasSize, snapCanvasPoint, guideDrag, onAddGuide, onMoveGuide, onRemoveGuide, onEndTransaction]);
+
+  // Switching away mid-drag loses the mouseup. What the drag has done so far
+  // stays, but it stops following the cursor, and shapes still being drawn
+  // are dropped since there is no release point to finish them at.
+  const abandonDrag = useCallback(() => {
+    setSnapGuides([]);
+    onEndTransaction();
+    if (isBrushing) finishBrushStroke();
+    setGuideDrag(null);
+    setNodeDrag(null);
+    setTransformDrag(null);
+    setIsDraggingPenHandle(false);
+    setIsDragging(false);
+    setIsDrawing(false);
+    setDragStart(null);
+    setDrawingStart(null);
+    setPreviewObject(null);
+    setSelectionBox(null);
+  }, [isBrushing, finishBrushStroke, onEndTransaction]);
+
+  // A drag released over a panel or outside the window never reaches the
+  // canvas; finish it anyway, or its transaction would take in later edits
+  useEffect(() => {
+    const handleWindowMouseUp = (e: MouseEvent) => {
+      if (!canvasRef.current?.contains(e.target as Node)) handleMouseUp(e);
+    };
+    window.addEventListener('mouseup', handleWindowMouseUp);
+    window.addEventListener('blur', abandonDrag);
+    return () => {
+      window.removeEventListener('mouseup', handleWindowMouseUp);
+      window.removeEventListener('blur', abandonDrag);
+    };
+  }, [handleMouseUp, abandonDrag]);
 
   const handleWheel = useCallback((e: React.WheelEvent) => {
     e.preventDefault();
@@ -821,27 +1297,15 @@ export const Canvas: React.FC<CanvasProps> = ({
     }
   }, [zoom, onZoomChange, tool, pan, onPanChange]);
 
-  const renderGradient = (gradient: any, id: string) => {
-    if (!gradient) return null;
-    
-    if (gradient.type === 'linear') {
-      return (
-        <linearGradient id={id} x1="0%" y1="0%" x2="100%" y2="0%">
-          {gradient.stops.map((stop: any, index: number) => (
-            <stop key={index} offset={`${stop.offset * 100}%`} stopColor={stop.color} stopOpacity={stop.opacity || 1} />
-          ))}
-        </linearGradient>
-      );
-    } else if (gradient.type === 'radial') {
-      return (
-        <radialGradient id={id} cx="50%" cy="50%" r="50%">
-          {gradient.stops.map((stop: any, index: number) => (
-            <stop key={index} offset={`${stop.offset * 100}%`} stopColor={stop.color} stopOpacity={stop.opacity || 1} />
-          ))}
-        </radialGradient>
-      );
-    }
-    return null;
+  const renderGradient = (gradient: Gradient, id: string) => {
+    const GradientTag = gradient.type === 'linear' ? 'linearGradient' : 'radialGradient';
+    return (
+      <GradientTag id={id} {...getGradientAttributes(gradient)}>
+        {gradient.stops.map((stop, index) => (
+          <stop key={index} offset={`${stop.offset * 100}%`} stopColor={stop.color} stopOpacity={stop.opacity ?? 1} />
+        ))}
+      </GradientTag>
+    );
   };
 
   const renderObject = (obj: CanvasObject) => {
@@ -859,6 +1323,7 @@ export const Canvas: React.FC<CanvasProps> = ({
       strokeWidth: isSelected ? Math.max(2, style.strokeWidth) : style.strokeWidth,
       opacity: isEditing ? 0.5 : style.opacity,
       fillOpacity: style.fillOpacity,
+      fillRule: style.fillRule,
       strokeOpacity: style.strokeOpacity,
       transform: `translate(${transform.x},${transform.y}) rotate(${transform.rotation * 180 / Math.PI}) scale(${transform.scaleX},${transform.scaleY})`,
       className: `${isSelected ? 'drop-shadow-lg' : ''} ${isPreview ? 'animate-pulse' : ''} transition-all duration-150`,
@@ -924,30 +1389,36 @@ export const Canvas: React.FC<CanvasProps> = ({
           </text>
         );
       case 'path':
-        const pathData = obj.points.length > 0 ? 
-          `M ${obj.points[0].x} ${obj.points[0].y} ` + 
-          obj.points.slice(1).map(p => `L ${p.x} ${p.y}`).join(' ') +
-          (obj.closed ? ' Z' : '') : '';
         return (
           <g key={obj.id}>
             {style.gradient && renderGradient(style.gradient, gradientId)}
             <path
-              d={pathData}
+              d={segmentsToPathData(obj.segments)}
               {...commonProps}
             />
           </g>
         );
       case 'curve':
-        const curveData = generateSmoothCurve(obj.points);
         return (
           <g key={obj.id}>
             {style.gradient && renderGradient(style.gradient, gradientId)}
             <path
-              d={curveData}
+              d={segmentsToPathData(smoothCurveToSegments(obj.points))}
               {...commonProps}
             />
           </g>
         );
+      case 'group':
+        return (
+          <g
+            key={obj.id}
+            transform={commonProps.transform}
+            opacity={commonProps.opacity}
+            className={commonProps.className}
+          >
+            {obj.children.filter(child => child.visible).map(renderObject)}
+          </g>
+        );
       case 'image':
         return (
           <image
@@ -965,7 +1436,241 @@ export const Canvas: React.FC<CanvasProps> = ({
     }
   };
 
+  // Pages drawn under the artwork, each labelled above its top-left corner
+  const renderArtboards = () => (
+    <g pointerEvents="none">
+      {artboards.map(artboard => {
+        const isActive = artboard.id === activeArtboardId;
+        return (
+          <g key={artboard.id}>
+            <rect
+              x={artboard.x}
+              y={artboard.y}
+              width={artboard.width}
+              height={artboard.height}
+              fill="white"
+              filter="url(#dropShadow)"
+            />
+            <rect
+              x={artboard.x}
+              y={artboard.y}
+              width={artboard.width}
+              height={artboard.height}
+              fill="none"
+              stroke={isActive ? '#3B82F6' : '#D1D5DB'}
+              strokeWidth={1 / zoom}
+            />
+            <text
+              x={artboard.x}
+              y={artboard.y - 6 / zoom}
+              fontSize={12 / zoom}
+              fill={isActive ? '#2563EB' : '#6B7280'}
+              fontWeight={isActive ? 600 : 400}
+            >
+              {artboard.name}
+            </text>
+          </g>
+        );
+      })}
+    </g>
+  );
+
+  const renderGuides = () => {
+    const shown = guides.map(guide => guide.id === guideDrag?.id ? { ...guide, position: guideDrag.position } : guide);
+    if (guideDrag && !guideDrag.id) {
+      shown.push({ id: 'new-guide', orientation: guideDrag.orientation, position: guideDrag.position });
+    }
+
+    return (
+      <g>
+        {shown.map(guide => {
+          const horizontal = guide.orientation === 'horizontal';
+          const line = horizontal
+            ? { x1: -GUIDE_EXTENT, y1: guide.position, x2: GUIDE_EXTENT, y2: guide.position }
+            : { x1: guide.position, y1: -GUIDE_EXTENT, x2: guide.position, y2: GUIDE_EXTENT };
+          return (
+            <g key={guide.id} style={{ cursor: tool === 'select' ? (horizontal ? 'row-resize' : 'col-resize') : undefined }}>
+              <line {...line} stroke="transparent" strokeWidth={8 / zoom} />
+              <line {...line} stroke="#06B6D4" strokeWidth={1 / zoom} />
+            </g>
+          );
+        })}
+      </g>
+    );
+  };
+
+  const renderSnapGuides = () => {
+    const fontSize = 10 / zoom;
+    return (
+      <g pointerEvents="none">
+        {snapGuides.map((guide, i) => guide.marker ? (
+          <g key={i} stroke="#FF00FF" strokeWidth={1.5 / zoom}>
+            <line x1={guide.from.x - 5 / zoom} y1={guide.from.y - 5 / zoom} x2={guide.from.x + 5 / zoom} y2={guide.from.y + 5 / zoom} />
+            <line x1={guide.from.x - 5 / zoom} y1={guide.from.y + 5 / zoom} x2={guide.from.x + 5 / zoom} y2={guide.from.y - 5 / zoom} />
+          </g>
+        ) : (
+          <g key={i}>
+            <line x1={guide.from.x} y1={guide.from.y} x2={guide.to.x} y2={guide.to.y} stroke="#FF00FF" strokeWidth={1 / zoom} />
+            {guide.label && guide.labelAt && (
+              <g>
+                <rect
+                  x={guide.labelAt.x - (guide.label.length * 0.35 + 0.4) * fontSize}
+                  y={guide.labelAt.y - 0.7 * fontSize}
+                  width={(guide.label.length * 0.7 + 0.8) * fontSize}
+                  height={1.4 * fontSize}
+                  rx={0.3 * fontSize}
+                  fill="#FF00FF"
+                />
+                <text
+                  x={guide.labelAt.x}
+                  y={guide.labelAt.y}
+                  fontSize={fontSize}
+                  fill="white"
+                  textAnchor="middle"
+                  dominantBaseline="central"
+                >
+                  {guide.label}
+                </text>
+              </g>
+            )}
+          </g>
+        ))}
+      </g>
+    );
+  };
+
+  const renderTransformHandles = (box: BoundingBox) => {
+    const size = 8 / zoom;
+    const handles = getTransformHandles(box, zoom);
+    const rotate = handles.find(h => h.handle === 'rotate')!.point;
+
+    return (
+      <g>
+        <rect
+          x={box.x}
+          y={box.y}
+          width={box.width}
+          height={box.height}
+          fill="none"
+          stroke="#3B82F6"
+          strokeWidth={1 / zoom}
+          pointerEvents="none"
+        />
+        <line x1={rotate.x} y1={box.y} x2={rotate.x} y2={rotate.y} stroke="#3B82F6" strokeWidth={1 / zoom} />
+        {handles.map(({ handle, point }) => handle === 'rotate' ? (
+          <circle
+            key={handle}
+            cx={point.x}
+            cy={point.y}
+            r={size / 2}
+            fill="white"
+            stroke="#3B82F6"
+            strokeWidth={1.5 / zoom}
+            style={{ cursor: HANDLE_CURSORS[handle] }}
+          />
+        ) : (
+          <rect
+            key={handle}
+            x={point.x - size / 2}
+            y={point.y - size / 2}
+            width={size}
+            height={size}
+            fill="white"
+            stroke="#3B82F6"
+            strokeWidth={1.5 / zoom}
+            style={{ cursor: HANDLE_CURSORS[handle] }}
+          >
+            {EDGE_HANDLES.includes(handle) && <title>Drag to resize, Ctrl+drag to skew</title>}
+          </rect>
+        ))}
+      </g>
+    );
+  };
+
+  // The path so far, a rubber band to the cursor, and the nodes with the
+  // handles of the one being placed
+  const renderPenPreview = () => {
+    const last = penNodes[penNodes.length - 1];
+    const size = 7 / zoom;
+    const canClose = penNodes.length > 1 && penCursor && distance(penCursor, penNodes[0].anchor) <= 6 / zoom;
+    const rubberBand = !isDraggingPenHandle && penCursor
+      ? bezierNodesToSegments([last, { anchor: penCursor, handleIn: penCursor, handleOut: penCursor }]).slice(1)
+      : [];
+
+    return (
+      <g pointerEvents="none">
+        <path
+          d={segmentsToPathData([...bezierNodesToSegments(penNodes), ...rubberBand])}
+          fill="none"
+          stroke={penSettings.color}
+          strokeWidth={penSettings.width}
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          opacity="0.8"
+        />
+        {[last.handleIn, last.handleOut]
+          .filter(handle => handle.x !== last.anchor.x || handle.y !== last.anchor.y)
+          .map((handle, i) => (
+            <g key={i}>
+              <line x1={last.anchor.x} y1={last.anchor.y} x2={handle.x} y2={handle.y} stroke="#3B82F6" strokeWidth={1 / zoom} />
+              <circle cx={handle.x} cy={handle.y} r={3.5 / zoom} fill="white" stroke="#3B82F6" strokeWidth={1 / zoom} />
+            </g>
+          ))}
+        {penNodes.map((node, index) => (
+          <rect
+            key={index}
+            x={node.anchor.x - size / 2}
+            y={node.anchor.y - size / 2}
+            width={size}
+            height={size}
+            fill={index === penNodes.length - 1 || (index === 0 && canClose) ? '#3B82F6' : 'white'}
+            stroke="#3B82F6"
+            strokeWidth={1.5 / zoom}
+          />
+        ))}
+      </g>
+    );
+  };
+
+  const renderNodeOverlay = (obj: PathObject | CurveObject) => {
+    const matrix = transformToMatrix(obj.transform);
+    const size = 7 / zoom;
+
+    return (
+      <g key={`nodes-${obj.id}`} pointerEvents="none">
+        {getEditableNodes(obj).map(node => {
+          const anchor = applyMatrix(node.anchor, matrix);
+          const isActive = activeNode?.objectId === obj.id && activeNode.index === node.index;
+          const handles = [node.handleIn, node.handleOut]
+            .filter((handle): handle is Point => !!handle && (handle.x !== node.anchor.x || handle.y !== node.anchor.y))
+            .map(handle => applyMatrix(handle, matrix));
+
+          return (
+            <g key={node.index}>
+              {handles.map((handle, i) => (
+                <g key={i}>
+                  <line x1={anchor.x} y1={anchor.y} x2={handle.x} y2={handle.y} stroke="#3B82F6" strokeWidth={1 / zoom} />
+                  <circle cx={handle.x} cy={handle.y} r={3.5 / zoom} fill="white" stroke="#3B82F6" strokeWidth={1 / zoom} />
+                </g>
+              ))}
+              <rect
+                x={anchor.x - size / 2}
+                y={anchor.y - size / 2}
+                width={size}
+                height={size}
+                fill={isActive ? '#3B82F6' : 'white'}
+                stroke="#3B82F6"
+                strokeWidth={1.5 / zoom}
+              />
+            </g>
+          );
+        })}
+      </g>
+    );
+  };
+
   const currentTool = isSpacePressed ? 'hand' : tool;
+  const activeArtboard = artboards.find(artboard => artboard.id === activeArtboardId) || artboards[0];
 
   return (
     <div className="flex-1 flex flex-col bg-gray-100 relative">
@@ -975,7 +1680,7 @@ export const Canvas: React.FC<CanvasProps> = ({
         className={`
           flex-1 bg-gradient-to-br from-gray-50 to-gray-100 overflow-hidden relative
           ${currentTool === 'hand' ? 'cursor-grab' : 
-            currentTool === 'select' ? 'cursor-default' : 
+            currentTool === 'select' || currentTool === 'node' ? 'cursor-default' : 
             currentTool === 'pen' ? 'cursor-crosshair' :
             currentTool === 'brush' ? 'cursor-none' :
             currentTool === 'eraser' ? 'cursor-none' :
@@ -986,30 +1691,32 @@ export const Canvas: React.FC<CanvasProps> = ({
         onMouseDown={handleMouseDown}
         onMouseMove={handleMouseMove}
         onMouseUp={handleMouseUp}
+        onMouseLeave={() => setCursorPoint(null)}
         onWheel={handleWheel}
       >
         {/* Grid Pattern */}
-        <div 
-          className="absolute inset-0 opacity-20"
-          style={{
-            backgroundImage: `
-              linear-gradient(to right, #d1d5db 1px, transparent 1px),
-              linear-gradient(to bottom, #d1d5db 1px, transparent 1px)
-            `,
-            backgroundSize: `${20 * zoom}px ${20 * zoom}px`,
-            backgroundPosition: `${pan.x}px ${pan.y}px`
-          }}
-        />
+        {showGrid && (
+          <div 
+            className="absolute inset-0 opacity-20"
+            style={{
+              backgroundImage: `
+                linear-gradient(to right, #d1d5db 1px, transparent 1px),
+                linear-gradient(to bottom, #d1d5db 1px, transparent 1px)
+              `,
+              backgroundSize: `${snapSettings.gridSize * zoom}px ${snapSettings.gridSize * zoom}px`,
+              backgroundPosition: `${pan.x}px ${pan.y}px`
+            }}
+          />
+        )}
         
         {/* Canvas */}
         <div
-          className="absolute bg-white shadow-2xl border border-gray-300"
+          className="absolute"
           style={{
             left: pan.x,
             top: pan.y,
             width: canvasSize.width * zoom,
-            height: canvasSize.height * zoom,
-            borderRadius: '4px'
+            height: canvasSize.height * zoom
           }}
         >
           <svg
@@ -1026,26 +1733,20 @@ export const Canvas: React.FC<CanvasProps> = ({
               </filter>
             </defs>
             
+            {/* Artboards */}
+            {renderArtboards()}
+
             {/* Render all objects */}
             {objects.filter(obj => obj.visible).map(renderObject)}
             
+            {/* Ruler guides */}
+            {renderGuides()}
+
             {/* Render preview object */}
             {previewObject && renderObject(previewObject)}
             
             {/* Pen tool live drawing */}
-            {tool === 'pen' && penPath.length > 0 && (
-              <path
-                d={penPath.length > 1 ? 
-                  `M ${penPath[0].x} ${penPath[0].y} ` + penPath.slice(1).map(p => `L ${p.x} ${p.y}`).join(' ') : ''
-                }
-                fill="none"
-                stroke={penSettings.color}
-                strokeWidth={penSettings.width}
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                opacity="0.8"
-              />
-            )}
+            {tool === 'pen' && penNodes.length > 0 && renderPenPreview()}
             
             {/* Brush stroke live drawing */}
             {tool === 'brush' && brushStrokes.length > 0 && (
@@ -1065,7 +1766,7 @@ export const Canvas: React.FC<CanvasProps> = ({
               <g>
                 {curvePoints.length > 1 && (
                   <path
-                    d={generateSmoothCurve(curvePoints)}
+                    d={segmentsToPathData(smoothCurveToSegments(curvePoints))}
                     fill="none"
                     stroke="#3B82F6"
                     strokeWidth="2"
@@ -1100,47 +1801,42 @@ export const Canvas: React.FC<CanvasProps> = ({
               />
             )}
             
-            {/* Selection handles */}
-            {selectedObjectIds.map(id => {
+            {/* Selection outlines */}
+            {tool !== 'node' && (tool !== 'select' || selectedObjectIds.length > 1) && selectedObjectIds.map(id => {
               const obj = objects.find(o => o.id === id);
               if (!obj) return null;
               
               const bbox = getBoundingBox(obj);
               return (
-                <g key={`handles-${id}`}>
-                  <rect
-                    x={bbox.x - 2}
-                    y={bbox.y - 2}
-                    width={bbox.width + 4}
-                    height={bbox.height + 4}
-                    fill="none"
-                    stroke="#3B82F6"
-                    strokeWidth="2"
-                    strokeDasharray="5,5"
-                  />
-                  {[
-                    { x: bbox.x - 4, y: bbox.y - 4 },
-                    { x: bbox.x + bbox.width, y: bbox.y - 4 },
-                    { x: bbox.x + bbox.width, y: bbox.y + bbox.height },
-                    { x: bbox.x - 4, y: bbox.y + bbox.height }
-                  ].map((handle, i) => (
-                    <rect
-                      key={i}
-                      x={handle.x}
-                      y={handle.y}
-                      width="8"
-                      height="8"
-                      fill="white"
-                      stroke="#3B82F6"
-                      strokeWidth="2"
-                      className="cursor-nw-resize"
-                    />
-                  ))}
-                </g>
+                <rect
+                  key={`outline-${id}`}
+                  x={bbox.x - 2}
+                  y={bbox.y - 2}
+                  width={bbox.width + 4}
+                  height={bbox.height + 4}
+                  fill="none"
+                  stroke="#3B82F6"
+                  strokeWidth="2"
+                  strokeDasharray="5,5"
+                />
               );
             })}
+
+            {/* Transform handles */}
+            {selectionBounds && renderTransformHandles(selectionBounds)}
+
+            {/* Smart guides */}
+            {snapGuides.length > 0 && renderSnapGuides()}
+
+            {/* Direct selection nodes and handles */}
+            {nodeTarget && renderNodeOverlay(nodeTarget)}
           </svg>
         </div>
+
+        {/* Rulers */}
+        {showRulers && (
+          <Rulers zoom={zoom} pan={pan} cursor={cursorPoint} onGuideDragStart={handleGuideDragStart} />
+        )}
         
         {/* Text Input Overlay */}
         {editingTextId && (
@@ -1157,6 +1853,15 @@ export const Canvas: React.FC<CanvasProps> = ({
               value={textInput}
               onChange={(e) => setTextInput(e.target.value)}
               onBlur={finishTextEditing}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  finishTextEditing();
+                  e.preventDefault();
+                } else if (e.key === 'Escape') {
+                  cancelTextEditing();
+                  e.preventDefault();
+                }
+              }}
               className="bg-transparent border-2 border-blue-500 text-black text-2xl font-normal outline-none px-2 py-1 rounded"
               style={{
                 fontFamily: 'Arial',
@@ -1169,7 +1874,7 @@ export const Canvas: React.FC<CanvasProps> = ({
         )}
         
         {/* Enhanced Status Bar */}
-        <div className="absolute bottom-4 left-4 bg-black/90 backdrop-blur-sm text-white px-4 py-3 rounded-xl text-sm font-medium shadow-2xl border border-gray-600">
+        <div className={`absolute bottom-4 ${showRulers ? 'left-9' : 'left-4'} bg-black/90 backdrop-blur-sm text-white px-4 py-3 rounded-xl text-sm font-medium shadow-2xl border border-gray-600`}>
           <div className="flex items-center gap-4">
             <div className="flex items-center gap-2">
               <div className={`w-3 h-3 rounded-full ${
@@ -1194,8 +1899,13 @@ export const Canvas: React.FC<CanvasProps> = ({
               Objects: {objects.length}
             </div>
             <div className="text-xs opacity-75 bg-white/10 px-2 py-1 rounded font-mono">
-              Canvas: {canvasSize.width}×{canvasSize.height}
+              {activeArtboard.name}: {activeArtboard.width}×{activeArtboard.height}
             </div>
+            {cursorPoint && (
+              <div className="text-xs opacity-75 bg-white/10 px-2 py-1 rounded font-mono">
+                X: {Math.round(cursorPoint.x)} Y: {Math.round(cursorPoint.y)}
+              </div>
+            )}
           </div>
         </div>
         
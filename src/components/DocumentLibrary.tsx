@@ -0,0 +1,228 @@
+import React, { useEffect, useState } from 'react';
+import { Library, X, Copy, Pencil, Trash2, Download, FolderOpen, FileImage } from 'lucide-react';
+import {
+  DocumentSummary,
+  deleteDocument,
+  duplicateDocument,
+  listDocuments,
+  loadDocument,
+  renameDocument
+} from '../utils/library';
+import { getProjectFilename, saveProjectArchive } from '../utils/archive';
+import { ProjectLoadError } from '../utils/project';
+
+interface DocumentLibraryProps {
+  isOpen: boolean;
+  onClose: () => void;
+  currentDocumentId: string | null;
+  onOpenDocument: (summary: DocumentSummary) => void;
+  onDocumentRenamed: (summary: DocumentSummary) => void;
+  onDocumentDeleted: (documentId: string) => void;
+}
+
+const reportError = (action: string, error: unknown) => {
+  console.error(`${action}:`, error);
+  alert(error instanceof ProjectLoadError ? `${action}.\n\n${error.message}` : `${action}.`);
+};
+
+export const DocumentLibrary: React.FC<DocumentLibraryProps> = ({
+  isOpen,
+  onClose,
+  currentDocumentId,
+  onOpenDocument,
+  onDocumentRenamed,
+  onDocumentDeleted
+}) => {
+  const [documents, setDocuments] = useState<DocumentSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [nameInput, setNameInput] = useState('');
+
+  const refresh = async () => {
+    try {
+      setDocuments(await listDocuments());
+    } catch (error) {
+      console.error('Failed to list documents:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setIsLoading(true);
+    refresh().finally(() => setIsLoading(false));
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const startRename = (summary: DocumentSummary) => {
+    setRenamingId(summary.id);
+    setNameInput(summary.name);
+  };
+
+  const finishRename = async () => {
+    const id = renamingId;
+    const name = nameInput.trim();
+    setRenamingId(null);
+    if (!id || !name) return;
+
+    try {
+      const renamed = await renameDocument(id, name);
+      if (renamed) onDocumentRenamed(renamed);
+    } catch (error) {
+      reportError('Failed to rename the document', error);
+    }
+    await refresh();
+  };
+
+  const handleDuplicate = async (summary: DocumentSummary) => {
+    try {
+      await duplicateDocument(summary.id);
+    } catch (error) {
+      reportError('Failed to duplicate the document', error);
+    }
+    await refresh();
+  };
+
+  const handleDelete = async (summary: DocumentSummary) => {
+    if (!window.confirm(`Delete "${summary.name}"? This cannot be undone.`)) return;
+    try {
+      await deleteDocument(summary.id);
+      onDocumentDeleted(summary.id);
+    } catch (error) {
+      reportError('Failed to delete the document', error);
+    }
+    await refresh();
+  };
+
+  const handleDownload = async (summary: DocumentSummary) => {
+    try {
+      const project = await loadDocument(summary.id);
+      if (!project) throw new Error(`Document ${summary.id} is missing from the library`);
+      await saveProjectArchive(project, getProjectFilename(summary.name));
+    } catch (error) {
+      reportError('Failed to download the document', error);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 animate-fadeIn">
+      <div className="bg-gray-900 rounded-xl shadow-2xl w-full max-w-4xl mx-4 animate-slideUp">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-700">
+          <div className="flex items-center gap-3">
+            <Library className="text-blue-400" size={24} />
+            <h2 className="text-xl font-semibold text-white">Documents</h2>
+            <span className="text-sm text-gray-500">{documents.length} saved in this browser</span>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-white hover:bg-gray-800 rounded-lg transition-all duration-200"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 max-h-[32rem] overflow-y-auto">
+          {isLoading ? (
+            <div className="text-center py-16 text-gray-400 text-sm">Loading…</div>
+          ) : documents.length === 0 ? (
+            <div className="text-center py-16 text-gray-400 text-sm">
+              No saved documents yet. Press Ctrl+S to save the current design here.
+            </div>
+          ) : (
+            <div className="grid grid-cols-3 gap-4">
+              {documents.map(summary => {
+                const isCurrent = summary.id === currentDocumentId;
+                return (
+                  <div
+                    key={summary.id}
+                    className={`rounded-lg border-2 overflow-hidden group transition-all duration-200 ${
+                      isCurrent ? 'border-blue-500 bg-blue-500/10' : 'border-gray-700 hover:border-gray-600 hover:bg-gray-800/50'
+                    }`}
+                  >
+                    <button
+                      onClick={() => onOpenDocument(summary)}
+                      className="w-full h-36 bg-gray-800 flex items-center justify-center"
+                      title="Open"
+                    >
+                      {summary.thumbnail ? (
+                        <img src={summary.thumbnail} alt="" className="max-w-full max-h-full object-contain" />
+                      ) : (
+                        <FileImage className="text-gray-600" size={32} />
+                      )}
+                    </button>
+
+                    <div className="p-3">
+                      {renamingId === summary.id ? (
+                        <input
+                          type="text"
+                          value={nameInput}
+                          autoFocus
+                          onChange={(e) => setNameInput(e.target.value)}
+                          onBlur={finishRename}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') finishRename();
+                            if (e.key === 'Escape') setRenamingId(null);
+                          }}
+                          className="w-full px-2 py-1 bg-gray-800 border border-gray-600 rounded text-white text-sm"
+                        />
+                      ) : (
+                        <div className="text-white text-sm font-medium truncate" title={summary.name}>
+                          {summary.name}
+                          {isCurrent && <span className="ml-2 text-xs text-blue-400">open</span>}
+                        </div>
+                      )}
+                      <div className="text-xs text-gray-500 mt-1">
+                        Modified {new Date(summary.modifiedAt).toLocaleString()}
+                      </div>
+
+                      <div className="flex items-center gap-1 mt-2">
+                        <button
+                          onClick={() => onOpenDocument(summary)}
+                          className="p-1.5 text-gray-400 hover:text-white hover:bg-gray-700/50 rounded transition-all duration-200"
+                          title="Open"
+                        >
+                          <FolderOpen size={14} />
+                        </button>
+                        <button
+                          onClick={() => startRename(summary)}
+                          className="p-1.5 text-gray-400 hover:text-white hover:bg-gray-700/50 rounded transition-all duration-200"
+                          title="Rename"
+                        >
+                          <Pencil size={14} />
+                        </button>
+                        <button
+                          onClick={() => handleDuplicate(summary)}
+                          className="p-1.5 text-gray-400 hover:text-white hover:bg-gray-700/50 rounded transition-all duration-200"
+                          title="Duplicate"
+                        >
+                          <Copy size={14} />
+                        </button>
+                        <button
+                          onClick={() => handleDownload(summary)}
+                          className="p-1.5 text-gray-400 hover:text-white hover:bg-gray-700/50 rounded transition-all duration-200"
+                          title="Download as file"
+                        >
+                          <Download size={14} />
+                        </button>
+                        <div className="flex-1" />
+                        <button
+                          onClick={() => handleDelete(summary)}
+                          className="p-1.5 text-gray-500 hover:text-red-400 rounded transition-all duration-200"
+                          title="Delete"
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,48 +1,82 @@
 import React, { useState } from 'react';
 import { X, Download, Settings } from 'lucide-react';
-import { Layer } from '../types';
-import { exportCanvas, downloadFile, ExportOptions } from '../utils/export';
+import { Artboard, Layer } from '../types';
+import { exportArtboards, exportCanvas, downloadFile, ExportOptions } from '../utils/export';
 
 interface ExportDialogProps {
   isOpen: boolean;
   onClose: () => void;
   layers: Layer[];
-  canvasSize: { width: number; height: number };
+  artboards: Artboard[];
+  activeArtboardId: string;
 }
 
+// Artboard names made safe to use in a filename
+const toFilenamePart = (name: string) => name.trim().replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '') || 'artboard';
+
 export const ExportDialog: React.FC<ExportDialogProps> = ({
   isOpen,
   onClose,
   layers,
-  canvasSize
+  artboards,
+  activeArtboardId
 }) => {
+  // Either an artboard id or 'all'
+  const [artboardScope, setArtboardScope] = useState(activeArtboardId);
+  const artboard = artboards.find(a => a.id === artboardScope)
+    || artboards.find(a => a.id === activeArtboardId)
+    || artboards[0];
+  const exportAll = artboardScope === 'all' && artboards.length > 1;
   const [format, setFormat] = useState<ExportOptions['format']>('png');
   const [quality, setQuality] = useState(0.9);
   const [scale, setScale] = useState(1);
   const [customSize, setCustomSize] = useState(false);
-  const [width, setWidth] = useState(canvasSize.width);
-  const [height, setHeight] = useState(canvasSize.height);
+  const [width, setWidth] = useState(artboard.width);
+  const [height, setHeight] = useState(artboard.height);
   const [backgroundColor, setBackgroundColor] = useState('#ffffff');
   const [isExporting, setIsExporting] = useState(false);
   const [filename, setFilename] = useState('design');
 
+  // The dialog stays mounted while closed, so each opening starts again from
+  // the artboard that is active now
+  const [wasOpen, setWasOpen] = useState(isOpen);
+  if (isOpen !== wasOpen) {
+    setWasOpen(isOpen);
+    if (isOpen) {
+      const active = artboards.find(a => a.id === activeArtboardId) || artboards[0];
+      setArtboardScope(activeArtboardId);
+      setWidth(active.width);
+      setHeight(active.height);
+    }
+  }
+
   if (!isOpen) return null;
 
   const handleExport = async () => {
     setIsExporting(true);
     try {
+      // Custom dimensions only make sense for a single artboard
+      const useCustomSize = customSize && !exportAll;
       const options: ExportOptions = {
         format,
         quality,
-        scale: customSize ? 1 : scale,
-        width: customSize ? width : undefined,
-        height: customSize ? height : undefined,
+        scale: useCustomSize ? 1 : scale,
+        width: useCustomSize ? width : undefined,
+        height: useCustomSize ? height : undefined,
         backgroundColor: format === 'jpg' ? backgroundColor : undefined
       };
 
-      const url = await exportCanvas(layers, canvasSize, options);
       const extension = format === 'jpg' ? 'jpeg' : format;
-      downloadFile(url, `${filename}.${extension}`);
+      if (!exportAll) {
+        const url = await exportCanvas(layers, artboard, options);
+        downloadFile(url, `${filename}.${extension}`);
+      } else if (format === 'pdf') {
+        const [url] = await exportArtboards(layers, artboards, options);
+        downloadFile(url, `${filename}.pdf`);
+      } else {
+        const urls = await exportArtboards(layers, artboards, options);
+        urls.forEach((url, i) => downloadFile(url, `${filename}-${toFilenamePart(artboards[i].name)}.${extension}`));
+      }
       onClose();
     } catch (error) {
       console.error('Export failed:', error);
@@ -122,7 +156,36 @@ export const ExportDialog: React.FC<ExportDialogProps> = ({
             />
           </div>
 
-          {/* Size Options - Only for raster formats */}
+          {/* Artboards */}
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Artboards</label>
+            <select
+              value={exportAll ? 'all' : artboard.id}
+              onChange={(e) => {
+                setArtboardScope(e.target.value);
+                const selected = artboards.find(a => a.id === e.target.value);
+                if (selected) {
+                  setWidth(selected.width);
+                  setHeight(selected.height);
+                }
+              }}
+              className="w-full px-4 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white focus:border-blue-500 focus:ring-1 focus:ring-blue-500 transition-all duration-200"
+            >
+              {artboards.map(a => (
+                <option key={a.id} value={a.id}>{a.name} ({a.width} × {a.height})</option>
+              ))}
+              {artboards.length > 1 && <option value="all">All artboards</option>}
+            </select>
+            {exportAll && (
+              <div className="text-xs text-gray-500 mt-1">
+                {format === 'pdf'
+                  ? 'One PDF with a page per artboard'
+                  : `${artboards.length} files, one per artboard`}
+              </div>
+            )}
+          </div>
+
+          {/* Size Options - raster formats, and the page size for PDF */}
           {['png', 'jpg', 'webp', 'pdf'].includes(format) && (
             <div>
               <label className="block text-sm font-medium text-gray-300 mb-3">Size Options</label>
@@ -131,14 +194,14 @@ export const ExportDialog: React.FC<ExportDialogProps> = ({
                   <input
                     type="radio"
                     name="sizeOption"
-                    checked={!customSize}
+                    checked={!customSize || exportAll}
                     onChange={() => setCustomSize(false)}
                     className="text-blue-500"
                   />
                   <span className="text-white">Use scale factor</span>
                 </label>
                 
-                {!customSize && (
+                {(!customSize || exportAll) && (
                   <div className="ml-6">
                     <div className="flex items-center gap-4">
                       <span className="text-sm text-gray-400 w-16">Scale:</span>
@@ -153,24 +216,28 @@ export const ExportDialog: React.FC<ExportDialogProps> = ({
                       />
                       <span className="text-white text-sm w-12">{scale}x</span>
                     </div>
-                    <div className="text-xs text-gray-500 mt-1">
-                      Output: {Math.round(canvasSize.width * scale)} × {Math.round(canvasSize.height * scale)}px
-                    </div>
+                    {!exportAll && (
+                      <div className="text-xs text-gray-500 mt-1">
+                        Output: {Math.round(artboard.width * scale)} × {Math.round(artboard.height * scale)}px
+                      </div>
+                    )}
                   </div>
                 )}
 
-                <label className="flex items-center gap-3 cursor-pointer">
-                  <input
-                    type="radio"
-                    name="sizeOption"
-                    checked={customSize}
-                    onChange={() => setCustomSize(true)}
-                    className="text-blue-500"
-                  />
-                  <span className="text-white">Custom dimensions</span>
-                </label>
+                {!exportAll && (
+                  <label className="flex items-center gap-3 cursor-pointer">
+                    <input
+                      type="radio"
+                      name="sizeOption"
+                      checked={customSize}
+                      onChange={() => setCustomSize(true)}
+                      className="text-blue-500"
+                    />
+                    <span className="text-white">Custom dimensions</span>
+                  </label>
+                )}
                 
-                {customSize && (
+                {customSize && !exportAll && (
                   <div className="ml-6 grid grid-cols-2 gap-4">
                     <div>
                       <label className="block text-xs text-gray-400 mb-1">Width (px)</label>
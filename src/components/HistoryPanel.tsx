@@ -0,0 +1,90 @@
+import React, { useEffect, useRef } from 'react';
+import { History, X, FileText } from 'lucide-react';
+import { HistoryEntry } from '../types';
+
+interface HistoryPanelProps {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+  onJumpToStep: (pastLength: number) => void;
+  onClose: () => void;
+  isVisible: boolean;
+}
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  past,
+  future,
+  onJumpToStep,
+  onClose,
+  isVisible
+}) => {
+  const currentRef = useRef<HTMLButtonElement>(null);
+
+  // Keep the current step in view as steps are added or undone
+  useEffect(() => {
+    currentRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [past.length, future.length, isVisible]);
+
+  if (!isVisible) return null;
+
+  // Step i leaves the first i entries applied; step 0 is the document as it
+  // was opened, or as far back as the history still reaches
+  const steps: { label: string; timestamp?: number }[] = [{ label: 'Open' }, ...past, ...future];
+  const current = past.length;
+
+  return (
+    <div className="absolute top-8 left-8 bg-slate-900/95 backdrop-blur-xl border border-slate-700/50 rounded-2xl shadow-2xl p-5 z-50 w-72">
+      <div className="flex items-center justify-between mb-5">
+        <div className="flex items-center gap-3">
+          <div className="w-8 h-8 bg-gradient-to-br from-amber-500 to-orange-600 rounded-xl flex items-center justify-center shadow-lg">
+            <History className="text-white" size={16} />
+          </div>
+          <h3 className="text-white font-bold text-lg">History</h3>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-2 text-slate-400 hover:text-white hover:bg-slate-700/50 rounded-xl transition-all duration-200"
+        >
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="space-y-1 max-h-80 overflow-y-auto">
+        {steps.map((step, i) => {
+          const isCurrent = i === current;
+          // Steps after the current one have been undone and can be redone
+          const isUndone = i > current;
+          return (
+            <button
+              key={i}
+              ref={isCurrent ? currentRef : undefined}
+              onClick={() => onJumpToStep(i)}
+              className={`w-full flex items-center gap-2 px-3 py-2 rounded-xl text-left text-sm transition-all duration-200 border ${
+                isCurrent
+                  ? 'bg-gradient-to-r from-amber-600/20 to-orange-600/20 border-amber-500/40 text-white'
+                  : isUndone
+                    ? 'border-transparent text-slate-500 italic hover:bg-slate-700/30'
+                    : 'border-transparent text-slate-300 hover:bg-slate-700/30'
+              }`}
+              title={isUndone ? 'Redo to here' : 'Undo to here'}
+            >
+              {i === 0 ? <FileText size={14} className="w-6 shrink-0" /> : (
+                <span className="w-6 text-right text-xs font-mono text-slate-500 shrink-0">{i}</span>
+              )}
+              <span className="flex-1 truncate">{step.label}</span>
+              {step.timestamp !== undefined && (
+                <span className="text-xs text-slate-500 font-mono">
+                  {new Date(step.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+                </span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="mt-4 pt-3 border-t border-slate-700/50 flex justify-between text-xs text-slate-500">
+        <span>{past.length} to undo</span>
+        <span>{future.length} to redo</span>
+      </div>
+    </div>
+  );
+};
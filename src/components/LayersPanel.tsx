@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 import { Eye, EyeOff, Lock, Unlock, Plus, Trash2, Layers, ChevronDown, ChevronRight, MoreHorizontal, ArrowUp, ArrowDown } from 'lucide-react';
-import { Layer } from '../types';
+import { CanvasObject, Layer } from '../types';
 
 interface LayersPanelProps {
   layers: Layer[];
@@ -22,6 +22,7 @@ export const LayersPanel: React.FC<LayersPanelProps> = ({
   onMoveLayer
 }) => {
   const [expandedLayers, setExpandedLayers] = useState<Set<string>>(new Set(layers.map(l => l.id)));
+  const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set());
 
   const toggleLayerExpansion = (layerId: string) => {
     const newExpanded = new Set(expandedLayers);
@@ -33,6 +34,72 @@ export const LayersPanel: React.FC<LayersPanelProps> = ({
     setExpandedLayers(newExpanded);
   };
 
+  const toggleGroupExpansion = (groupId: string) => {
+    const newExpanded = new Set(expandedGroups);
+    if (newExpanded.has(groupId)) {
+      newExpanded.delete(groupId);
+    } else {
+      newExpanded.add(groupId);
+    }
+    setExpandedGroups(newExpanded);
+  };
+
+  const renderObjectRow = (obj: CanvasObject, objIndex: number): React.ReactNode => {
+    const isGroupExpanded = obj.type === 'group' && expandedGroups.has(obj.id);
+
+    return (
+      <div key={obj.id} className="space-y-1">
+        <div
+          className="flex items-center gap-2 p-2 rounded-lg text-sm text-slate-300 hover:bg-slate-700/30 transition-all duration-200 cursor-pointer border border-slate-700/20 hover:border-slate-600/30"
+        >
+          {obj.type === 'group' ? (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                toggleGroupExpansion(obj.id);
+              }}
+              className="p-0.5 -ml-1 text-slate-400 hover:text-slate-300 transition-colors duration-200"
+            >
+              {isGroupExpanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+            </button>
+          ) : (
+            <div className={`w-3 h-3 rounded-full ${
+              obj.type === 'rect' ? 'bg-emerald-400' :
+              obj.type === 'circle' ? 'bg-cyan-400' :
+              obj.type === 'text' ? 'bg-violet-400' :
+              obj.type === 'line' ? 'bg-yellow-400' :
+              obj.type === 'path' ? 'bg-purple-400' :
+              obj.type === 'curve' ? 'bg-pink-400' :
+              obj.type === 'image' ? 'bg-orange-400' :
+              'bg-slate-400'
+            }`} />
+          )}
+          <span className="flex-1 capitalize">
+            {obj.type} {objIndex + 1}
+          </span>
+          {obj.type === 'group' && (
+            <span className="text-xs px-2 py-0.5 rounded-full bg-slate-700 text-slate-400">
+              {obj.children.length}
+            </span>
+          )}
+          <button
+            className={`p-1 rounded ${
+              obj.visible ? 'text-blue-400' : 'text-slate-500'
+            }`}
+          >
+            {obj.visible ? <Eye size={12} /> : <EyeOff size={12} />}
+          </button>
+        </div>
+
+        {isGroupExpanded && obj.type === 'group' && (
+          <div className="ml-4 pl-2 space-y-1 border-l border-slate-700/50">
+            {obj.children.map((child, childIndex) => renderObjectRow(child, childIndex))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   const getLayerIndex = (layerId: string) => {
     return layers.findIndex(layer => layer.id === layerId);
   };
@@ -205,33 +272,7 @@ export const LayersPanel: React.FC<LayersPanelProps> = ({
               {/* Layer Objects */}
               {isExpanded && layer.objects.length > 0 && (
                 <div className="ml-6 space-y-1">
-                  {layer.objects.map((obj, objIndex) => (
-                    <div
-                      key={obj.id}
-                      className="flex items-center gap-2 p-2 rounded-lg text-sm text-slate-300 hover:bg-slate-700/30 transition-all duration-200 cursor-pointer border border-slate-700/20 hover:border-slate-600/30"
-                    >
-                      <div className={`w-3 h-3 rounded-full ${
-                        obj.type === 'rect' ? 'bg-emerald-400' :
-                        obj.type === 'circle' ? 'bg-cyan-400' :
-                        obj.type === 'text' ? 'bg-violet-400' :
-                        obj.type === 'line' ? 'bg-yellow-400' :
-                        obj.type === 'path' ? 'bg-purple-400' :
-                        obj.type === 'curve' ? 'bg-pink-400' :
-                        obj.type === 'image' ? 'bg-orange-400' :
-                        'bg-slate-400'
-                      }`} />
-                      <span className="flex-1 capitalize">
-                        {obj.type} {objIndex + 1}
-                      </span>
-                      <button
-                        className={`p-1 rounded ${
-                          obj.visible ? 'text-blue-400' : 'text-slate-500'
-                        }`}
-                      >
-                        {obj.visible ? <Eye size={12} /> : <EyeOff size={12} />}
-                      </button>
-                    </div>
-                  ))}
+                  {layer.objects.map((obj, objIndex) => renderObjectRow(obj, objIndex))}
                 </div>
               )}
             </div>
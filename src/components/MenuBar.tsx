@@ -15,11 +15,19 @@ import {
   Settings,
   Grid,
   Ruler,
-  Palette
+  Palette,
+  Magnet,
+  Grid3x3,
+  Frame,
+  History,
+  Library,
+  FileDown
 } from 'lucide-react';
-import { Layer } from '../types';
+import { Artboard, Layer, ProjectData, SnapSettings } from '../types';
 import { ExportDialog } from './ExportDialog';
 import { loadImageAsObject, parseSVGFile } from '../utils/export';
+import { ProjectLoadError, parseProject } from '../utils/project';
+import { isProjectArchive, readProjectArchive } from '../utils/archive';
 
 interface MenuBarProps {
   onUndo: () => void;
@@ -27,11 +35,28 @@ interface MenuBarProps {
   canUndo: boolean;
   canRedo: boolean;
   layers: Layer[];
-  canvasSize: { width: number; height: number };
+  artboards: Artboard[];
+  activeArtboardId: string;
   zoom: number;
   onZoomChange: (zoom: number) => void;
-  onLoadProject: (data: any) => void;
+  onLoadProject: (project: ProjectData) => void;
+  onSave: () => void;
+  onSaveToFile: () => void;
+  onOpenLibrary: () => void;
+  documentName: string;
+  hasUnsavedChanges: boolean;
+  lastAutosavedAt: number | null;
   onAddObject: (obj: any) => void;
+  snapSettings: SnapSettings;
+  onSnapSettingsChange: (settings: SnapSettings) => void;
+  showGrid: boolean;
+  onShowGridChange: (show: boolean) => void;
+  showRulers: boolean;
+  onShowRulersChange: (show: boolean) => void;
+  showArtboards: boolean;
+  onShowArtboardsChange: (show: boolean) => void;
+  showHistory: boolean;
+  onShowHistoryChange: (show: boolean) => void;
 }
 
 export const MenuBar: React.FC<MenuBarProps> = ({
@@ -40,35 +65,30 @@ export const MenuBar: React.FC<MenuBarProps> = ({
   canUndo,
   canRedo,
   layers,
-  canvasSize,
+  artboards,
+  activeArtboardId,
   zoom,
   onZoomChange,
   onLoadProject,
-  onAddObject
+  onSave,
+  onSaveToFile,
+  onOpenLibrary,
+  documentName,
+  hasUnsavedChanges,
+  lastAutosavedAt,
+  onAddObject,
+  snapSettings,
+  onSnapSettingsChange,
+  showGrid,
+  onShowGridChange,
+  showRulers,
+  onShowRulersChange,
+  showArtboards,
+  onShowArtboardsChange,
+  showHistory,
+  onShowHistoryChange
 }) => {
   const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
-  const [showGrid, setShowGrid] = useState(true);
-  const [showRulers, setShowRulers] = useState(true);
-
-  const handleSave = () => {
-    const data = {
-      version: '1.0',
-      application: 'VectorStudio Pro',
-      created: new Date().toISOString(),
-      layers,
-      canvasSize,
-      timestamp: Date.now()
-    };
-    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'design.json';
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-  };
 
   const handleFileOpen = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -78,10 +98,11 @@ export const MenuBar: React.FC<MenuBarProps> = ({
     const fileName = file.name.toLowerCase();
 
     try {
-      if (fileType === 'application/json' || fileName.endsWith('.json')) {
+      if (isProjectArchive(fileName)) {
+        onLoadProject(await readProjectArchive(await file.arrayBuffer()));
+      } else if (fileType === 'application/json' || fileName.endsWith('.json')) {
         const text = await file.text();
-        const data = JSON.parse(text);
-        onLoadProject(data);
+        onLoadProject(parseProject(JSON.parse(text)));
       } else if (fileType.startsWith('image/') || fileName.endsWith('.svg')) {
         if (fileName.endsWith('.svg')) {
           const svgContent = await file.text();
@@ -94,7 +115,9 @@ export const MenuBar: React.FC<MenuBarProps> = ({
       }
     } catch (error) {
       console.error('Failed to load file:', error);
-      alert('Failed to load file. Please check the file format.');
+      alert(error instanceof ProjectLoadError
+        ? `Failed to open the project.\n\n${error.message}`
+        : 'Failed to load file. Please check the file format.');
     }
 
     e.target.value = '';
@@ -113,6 +136,9 @@ export const MenuBar: React.FC<MenuBarProps> = ({
             <Palette className="text-white" size={16} />
           </div>
           <div className="text-white font-bold text-sm">VectorStudio Pro</div>
+          <div className="text-gray-400 text-sm truncate max-w-48" title={documentName}>
+            {documentName}{hasUnsavedChanges && ' •'}
+          </div>
         </div>
 
         <div className="w-px h-6 bg-gray-600" />
@@ -120,19 +146,37 @@ export const MenuBar: React.FC<MenuBarProps> = ({
         {/* File Operations */}
         <div className="flex items-center gap-1">
           <button
-            onClick={handleSave}
+            onClick={onSave}
             className="flex items-center gap-2 px-3 py-1.5 text-gray-300 hover:text-white hover:bg-gray-700/50 rounded text-sm transition-all duration-200"
+            title="Save (Ctrl+S)"
           >
             <Save size={14} />
             Save
           </button>
+
+          <button
+            onClick={onSaveToFile}
+            className="p-1.5 text-gray-300 hover:text-white hover:bg-gray-700/50 rounded transition-all duration-200"
+            title="Download as .vsproj file"
+          >
+            <FileDown size={14} />
+          </button>
+
+          <button
+            onClick={onOpenLibrary}
+            className="flex items-center gap-2 px-3 py-1.5 text-gray-300 hover:text-white hover:bg-gray-700/50 rounded text-sm transition-all duration-200"
+            title="Documents saved in this browser"
+          >
+            <Library size={14} />
+            Documents
+          </button>
           
           <label className="flex items-center gap-2 px-3 py-1.5 text-gray-300 hover:text-white hover:bg-gray-700/50 rounded text-sm cursor-pointer transition-all duration-200">
             <FolderOpen size={14} />
             Open
             <input
               type="file"
-              accept=".json,.png,.jpg,.jpeg,.svg,.webp"
+              accept=".vsproj,.json,.png,.jpg,.jpeg,.svg,.webp"
               className="hidden"
               onChange={handleFileOpen}
             />
@@ -171,6 +215,16 @@ export const MenuBar: React.FC<MenuBarProps> = ({
           >
             <Redo size={14} />
           </button>
+
+          <button
+            onClick={() => onShowHistoryChange(!showHistory)}
+            className={`p-1.5 rounded transition-all duration-200 ${
+              showHistory ? 'text-blue-400 bg-blue-500/20' : 'text-gray-300 hover:text-white hover:bg-gray-700/50'
+            }`}
+            title="History"
+          >
+            <History size={14} />
+          </button>
         </div>
 
         <div className="w-px h-6 bg-gray-600" />
@@ -221,7 +275,7 @@ export const MenuBar: React.FC<MenuBarProps> = ({
         {/* View Options */}
         <div className="flex items-center gap-1">
           <button
-            onClick={() => setShowGrid(!showGrid)}
+            onClick={() => onShowGridChange(!showGrid)}
             className={`p-1.5 rounded transition-all duration-200 ${
               showGrid ? 'text-blue-400 bg-blue-500/20' : 'text-gray-300 hover:text-white hover:bg-gray-700/50'
             }`}
@@ -231,7 +285,7 @@ export const MenuBar: React.FC<MenuBarProps> = ({
           </button>
           
           <button
-            onClick={() => setShowRulers(!showRulers)}
+            onClick={() => onShowRulersChange(!showRulers)}
             className={`p-1.5 rounded transition-all duration-200 ${
               showRulers ? 'text-blue-400 bg-blue-500/20' : 'text-gray-300 hover:text-white hover:bg-gray-700/50'
             }`}
@@ -239,6 +293,36 @@ export const MenuBar: React.FC<MenuBarProps> = ({
           >
             <Ruler size={14} />
           </button>
+
+          <button
+            onClick={() => onSnapSettingsChange({ ...snapSettings, smartGuides: !snapSettings.smartGuides })}
+            className={`p-1.5 rounded transition-all duration-200 ${
+              snapSettings.smartGuides ? 'text-blue-400 bg-blue-500/20' : 'text-gray-300 hover:text-white hover:bg-gray-700/50'
+            }`}
+            title="Smart Guides"
+          >
+            <Magnet size={14} />
+          </button>
+
+          <button
+            onClick={() => onSnapSettingsChange({ ...snapSettings, grid: !snapSettings.grid })}
+            className={`p-1.5 rounded transition-all duration-200 ${
+              snapSettings.grid ? 'text-blue-400 bg-blue-500/20' : 'text-gray-300 hover:text-white hover:bg-gray-700/50'
+            }`}
+            title="Snap to Grid"
+          >
+            <Grid3x3 size={14} />
+          </button>
+
+          <button
+            onClick={() => onShowArtboardsChange(!showArtboards)}
+            className={`p-1.5 rounded transition-all duration-200 ${
+              showArtboards ? 'text-blue-400 bg-blue-500/20' : 'text-gray-300 hover:text-white hover:bg-gray-700/50'
+            }`}
+            title="Artboards"
+          >
+            <Frame size={14} />
+          </button>
         </div>
 
         <div className="flex-1" />
@@ -272,6 +356,11 @@ export const MenuBar: React.FC<MenuBarProps> = ({
         <div className="flex items-center gap-3 text-xs text-gray-400 border-l border-gray-600 pl-3">
           <span>{layers.reduce((total, layer) => total + layer.objects.length, 0)} objects</span>
           <span>{layers.filter(layer => layer.visible).length} layers</span>
+          {lastAutosavedAt && (
+            <span title="Unsaved changes are kept in this browser">
+              Autosaved {new Date(lastAutosavedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            </span>
+          )}
         </div>
       </div>
 
@@ -279,7 +368,8 @@ export const MenuBar: React.FC<MenuBarProps> = ({
         isOpen={isExportDialogOpen}
         onClose={() => setIsExportDialogOpen(false)}
         layers={layers}
-        canvasSize={canvasSize}
+        artboards={artboards}
+        activeArtboardId={activeArtboardId}
       />
     </>
   );
@@ -18,15 +18,65 @@ import {
   Square,
   Circle as CircleIcon,
   Type,
-  Sliders
+  Sliders,
+  Combine,
+  CopyMinus,
+  Blend,
+  Component,
+  AlignStartVertical,
+  AlignCenterVertical,
+  AlignEndVertical,
+  AlignStartHorizontal,
+  AlignCenterHorizontal,
+  AlignEndHorizontal,
+  AlignHorizontalDistributeCenter,
+  AlignVerticalDistributeCenter,
+  AlignHorizontalSpaceBetween,
+  AlignVerticalSpaceBetween
 } from 'lucide-react';
-import { CanvasObject } from '../types';
+import { AlignReference, Alignment, BooleanOperation, CanvasObject, DistributeMode } from '../types';
+import { getSubpaths } from '../utils/path';
 
 interface PropertiesPanelProps {
   selectedObjects: CanvasObject[];
   onUpdateObject: (objectId: string, updates: Partial<CanvasObject>) => void;
+  onUpdateObjects: (objectIds: string[], getUpdates: (obj: CanvasObject) => Partial<CanvasObject>) => void;
+  onBooleanOperation: (operation: BooleanOperation) => void;
+  onMakeCompoundPath: () => void;
+  onReleaseCompoundPath: () => void;
+  onAlign: (alignment: Alignment, reference: AlignReference, keyObjectId?: string) => void;
+  onDistribute: (axis: 'horizontal' | 'vertical', mode: DistributeMode, reference: AlignReference) => void;
 }
 
+const alignments = [
+  { id: 'left', icon: AlignStartVertical, label: 'Align Left' },
+  { id: 'center', icon: AlignCenterVertical, label: 'Align Horizontal Centers' },
+  { id: 'right', icon: AlignEndVertical, label: 'Align Right' },
+  { id: 'top', icon: AlignStartHorizontal, label: 'Align Top' },
+  { id: 'middle', icon: AlignCenterHorizontal, label: 'Align Vertical Centers' },
+  { id: 'bottom', icon: AlignEndHorizontal, label: 'Align Bottom' }
+] as const;
+
+const distributions = [
+  { axis: 'horizontal', mode: 'centers', icon: AlignHorizontalDistributeCenter, label: 'Distribute Horizontal Centers' },
+  { axis: 'vertical', mode: 'centers', icon: AlignVerticalDistributeCenter, label: 'Distribute Vertical Centers' },
+  { axis: 'horizontal', mode: 'spacing', icon: AlignHorizontalSpaceBetween, label: 'Distribute Horizontal Spacing' },
+  { axis: 'vertical', mode: 'spacing', icon: AlignVerticalSpaceBetween, label: 'Distribute Vertical Spacing' }
+] as const;
+
+const alignReferences: { id: AlignReference; label: string }[] = [
+  { id: 'selection', label: 'Selection' },
+  { id: 'keyObject', label: 'Key Object' },
+  { id: 'artboard', label: 'Artboard' }
+];
+
+const booleanOperations = [
+  { id: 'union', icon: Combine, label: 'Unite' },
+  { id: 'subtract', icon: CopyMinus, label: 'Minus Front' },
+  { id: 'intersect', icon: Blend, label: 'Intersect' },
+  { id: 'exclude', icon: Component, label: 'Exclude' }
+] as const;
+
 interface GradientStop {
   offset: number;
   color: string;
@@ -41,11 +91,24 @@ interface Gradient {
 
 export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ 
   selectedObjects, 
-  onUpdateObject 
+  onUpdateObject,
+  onUpdateObjects,
+  onBooleanOperation,
+  onMakeCompoundPath,
+  onReleaseCompoundPath,
+  onAlign,
+  onDistribute
 }) => {
   const selectedObject = selectedObjects[0];
   const multipleSelected = selectedObjects.length > 1;
-  const [expandedSections, setExpandedSections] = useState<Set<string>>(new Set(['position', 'appearance', 'fill']));
+  const isCompoundPath = !multipleSelected && selectedObject?.type === 'path' && getSubpaths(selectedObject.segments).length > 1;
+  const [expandedSections, setExpandedSections] = useState<Set<string>>(new Set(['position', 'align', 'pathfinder', 'appearance', 'fill']));
+  const [alignReference, setAlignReference] = useState<AlignReference>('selection');
+  const [keyObjectId, setKeyObjectId] = useState<string | null>(null);
+  // The key object defaults to the first selected one
+  const keyObject = selectedObjects.find(obj => obj.id === keyObjectId) || selectedObject;
+  // A single object can only be aligned to the artboard
+  const effectiveReference = multipleSelected ? alignReference : 'artboard';
   const [gradientMode, setGradientMode] = useState(false);
 
   const toggleSection = (section: string) => {
@@ -81,26 +144,23 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
     );
   }
 
+  // Edits apply to the whole selection as one undo step
+  const selectedIds = selectedObjects.map(obj => obj.id);
+
   const updateStyle = (property: string, value: any) => {
-    selectedObjects.forEach(obj => {
-      onUpdateObject(obj.id, {
-        style: { ...obj.style, [property]: value }
-      });
-    });
+    onUpdateObjects(selectedIds, obj => ({
+      style: { ...obj.style, [property]: value }
+    }));
   };
 
   const updateTransform = (property: string, value: any) => {
-    selectedObjects.forEach(obj => {
-      onUpdateObject(obj.id, {
-        transform: { ...obj.transform, [property]: value }
-      });
-    });
+    onUpdateObjects(selectedIds, obj => ({
+      transform: { ...obj.transform, [property]: value }
+    }));
   };
 
   const updateProperty = (property: string, value: any) => {
-    selectedObjects.forEach(obj => {
-      onUpdateObject(obj.id, { [property]: value });
-    });
+    onUpdateObjects(selectedIds, () => ({ [property]: value }));
   };
 
   const createGradient = (type: 'linear' | 'radial') => {
@@ -384,6 +444,115 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
           </div>
         )}
 
+        {/* Align & Distribute */}
+        <div className="mb-4">
+          <SectionHeader title="Align" icon={AlignCenterVertical} sectionKey="align" color="indigo" />
+          {expandedSections.has('align') && (
+            <div className="px-4 pb-6 space-y-4">
+              <div>
+                <label className="block text-xs text-slate-400 mb-3 font-semibold">Align To</label>
+                <div className="grid grid-cols-3 gap-2">
+                  {alignReferences.map(({ id, label }) => (
+                    <button
+                      key={id}
+                      onClick={() => setAlignReference(id)}
+                      disabled={!multipleSelected && id !== 'artboard'}
+                      className={`p-2 rounded-xl text-xs font-semibold transition-all duration-200 disabled:opacity-40 ${
+                        effectiveReference === id
+                          ? 'bg-gradient-to-br from-indigo-500 to-indigo-600 text-white shadow-lg shadow-indigo-500/30'
+                          : 'bg-slate-700/50 text-slate-300 hover:bg-slate-600/50'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {effectiveReference === 'keyObject' && (
+                <div>
+                  <label className="block text-xs text-slate-400 mb-2 font-semibold">Key Object</label>
+                  <select
+                    value={keyObject.id}
+                    onChange={(e) => setKeyObjectId(e.target.value)}
+                    className="w-full px-3 py-2 bg-slate-800/50 border border-slate-600/50 rounded-lg text-white text-sm focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 transition-all duration-200"
+                  >
+                    {selectedObjects.map(obj => (
+                      <option key={obj.id} value={obj.id}>{obj.type} ({obj.id})</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              <div className="grid grid-cols-6 gap-2">
+                {alignments.map(({ id, icon: Icon, label }) => (
+                  <button
+                    key={id}
+                    onClick={() => onAlign(id, effectiveReference, keyObject.id)}
+                    className="p-2 bg-slate-700/50 text-slate-300 rounded-xl hover:bg-indigo-600 hover:text-white transition-all duration-200 flex items-center justify-center"
+                    title={label}
+                  >
+                    <Icon size={16} />
+                  </button>
+                ))}
+              </div>
+
+              <div>
+                <label className="block text-xs text-slate-400 mb-3 font-semibold">Distribute</label>
+                <div className="grid grid-cols-4 gap-2">
+                  {distributions.map(({ axis, mode, icon: Icon, label }) => (
+                    <button
+                      key={`${axis}-${mode}`}
+                      onClick={() => onDistribute(axis, mode, effectiveReference)}
+                      className="p-2 bg-slate-700/50 text-slate-300 rounded-xl hover:bg-indigo-600 hover:text-white transition-all duration-200 flex items-center justify-center"
+                      title={label}
+                    >
+                      <Icon size={16} />
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Pathfinder */}
+        {(multipleSelected || isCompoundPath) && (
+          <div className="mb-4">
+            <SectionHeader title="Pathfinder" icon={Combine} sectionKey="pathfinder" color="teal" />
+            {expandedSections.has('pathfinder') && (
+              <div className="px-4 pb-6">
+                {multipleSelected && (
+                  <>
+                    <div className="grid grid-cols-4 gap-2">
+                      {booleanOperations.map(({ id, icon: Icon, label }) => (
+                        <button
+                          key={id}
+                          onClick={() => onBooleanOperation(id)}
+                          className="p-3 bg-slate-700/50 text-slate-300 rounded-xl hover:bg-teal-600 hover:text-white transition-all duration-200 flex items-center justify-center"
+                          title={label}
+                        >
+                          <Icon size={16} />
+                        </button>
+                      ))}
+                    </div>
+                    <p className="text-xs text-slate-500 mt-3">
+                      Combines rectangles, ellipses, paths and curves into a single path
+                    </p>
+                  </>
+                )}
+                <button
+                  onClick={multipleSelected ? onMakeCompoundPath : onReleaseCompoundPath}
+                  className="w-full mt-3 p-3 bg-slate-700/50 text-slate-300 rounded-xl text-sm font-semibold hover:bg-teal-600 hover:text-white transition-all duration-200"
+                  title={multipleSelected ? 'Make Compound Path (Ctrl+8)' : 'Release Compound Path (Ctrl+Alt+8)'}
+                >
+                  {multipleSelected ? 'Make Compound Path' : 'Release Compound Path'}
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Appearance */}
         <div className="mb-4">
           <SectionHeader title="Appearance" icon={Sliders} sectionKey="appearance" color="purple" />
@@ -491,7 +660,7 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
                       className="w-full h-full"
                       style={{
                         background: selectedObject.style.gradient.type === 'linear'
-                          ? `linear-gradient(90deg, ${selectedObject.style.gradient.stops.map(stop => 
+                          ? `linear-gradient(${(selectedObject.style.gradient.angle || 0) + 180}deg, ${selectedObject.style.gradient.stops.map(stop => 
                               `${stop.color} ${stop.offset * 100}%`
                             ).join(', ')})`
                           : `radial-gradient(circle, ${selectedObject.style.gradient.stops.map(stop => 
@@ -562,7 +731,14 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
                             max="360"
                             value={selectedObject.style.gradient.angle || 0}
                             onChange={(e) => {
-                              const newGradient = { ...selectedObject.style.gradient, angle: parseFloat(e.target.value) };
+                              // An explicit (imported) vector would override the angle, so drop it
+                              const newGradient = {
+                                ...selectedObject.style.gradient,
+                                angle: parseFloat(e.target.value),
+                                linearVector: undefined,
+                                gradientUnits: undefined,
+                                gradientTransform: undefined
+                              };
                               updateStyle('gradient', newGradient);
                             }}
                             className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer"
@@ -576,6 +752,28 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
                   )}
                 </div>
               )}
+
+              {/* Fill Rule */}
+              {!multipleSelected && (selectedObject.type === 'path' || selectedObject.type === 'curve') && (
+                <div>
+                  <label className="block text-xs text-slate-400 mb-3 font-semibold">Fill Rule</label>
+                  <div className="grid grid-cols-2 gap-2">
+                    {(['nonzero', 'evenodd'] as const).map(rule => (
+                      <button
+                        key={rule}
+                        onClick={() => updateStyle('fillRule', rule)}
+                        className={`p-3 rounded-xl text-sm font-semibold transition-all duration-200 ${
+                          (selectedObject.style.fillRule || 'nonzero') === rule
+                            ? 'bg-gradient-to-br from-orange-500 to-orange-600 text-white shadow-lg shadow-orange-500/30'
+                            : 'bg-slate-700/50 text-slate-300 hover:bg-slate-600/50'
+                        }`}
+                      >
+                        {rule === 'nonzero' ? 'Non-zero' : 'Even-odd'}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
           )}
         </div>
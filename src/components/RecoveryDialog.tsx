@@ -0,0 +1,60 @@
+import React from 'react';
+import { LifeBuoy, RotateCcw, Trash2 } from 'lucide-react';
+import { AutosaveRecord } from '../utils/autosave';
+import { flattenObjects } from '../utils/objects';
+
+interface RecoveryDialogProps {
+  record: AutosaveRecord | null;
+  onRecover: () => void;
+  onDiscard: () => void;
+}
+
+export const RecoveryDialog: React.FC<RecoveryDialogProps> = ({ record, onRecover, onDiscard }) => {
+  if (!record) return null;
+
+  const { project } = record;
+  const objectCount = project.layers.reduce((total, layer) => total + flattenObjects(layer.objects).length, 0);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 animate-fadeIn">
+      <div className="bg-gray-900 rounded-xl shadow-2xl w-full max-w-md mx-4 animate-slideUp">
+        {/* Header */}
+        <div className="flex items-center gap-3 p-6 border-b border-gray-700">
+          <LifeBuoy className="text-blue-400" size={24} />
+          <h2 className="text-xl font-semibold text-white">Recover Unsaved Work</h2>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-3 text-sm text-gray-300">
+          <p>
+            The last session ended with changes that were never saved. They were
+            autosaved on {new Date(record.savedAt).toLocaleString()}.
+          </p>
+          <div className="flex gap-4 text-xs text-gray-400">
+            <span>{objectCount} objects</span>
+            <span>{project.layers.length} layers</span>
+            <span>{project.artboards.length} artboards</span>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end gap-3 p-6 border-t border-gray-700">
+          <button
+            onClick={onDiscard}
+            className="px-6 py-2 text-gray-300 hover:text-white hover:bg-gray-800 rounded-lg transition-all duration-200 flex items-center gap-2"
+          >
+            <Trash2 size={16} />
+            Discard
+          </button>
+          <button
+            onClick={onRecover}
+            className="px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-all duration-200 flex items-center gap-2"
+          >
+            <RotateCcw size={16} />
+            Recover
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
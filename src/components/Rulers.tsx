@@ -0,0 +1,146 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Guide, Point } from '../types';
+
+// Thickness of the rulers in screen pixels
+export const RULER_SIZE = 20;
+
+// Label spacings to choose from, in canvas units
+const RULER_STEPS = [1, 2, 5, 10, 20, 50, 100, 200, 500, 1000, 2000, 5000, 10000];
+
+interface RulersProps {
+  zoom: number;
+  pan: Point;
+  cursor: Point | null;
+  onGuideDragStart: (orientation: Guide['orientation'], e: React.MouseEvent) => void;
+}
+
+// Labelled ticks every `step` canvas units, at least 50px apart on screen,
+// with four unlabelled ones between them
+const getTicks = (zoom: number, offset: number, length: number) => {
+  const step = RULER_STEPS.find(s => s * zoom >= 50) || RULER_STEPS[RULER_STEPS.length - 1];
+  const minor = step / 5;
+  const first = Math.floor(-offset / zoom / minor) * minor;
+  const last = (length - offset) / zoom;
+
+  const ticks: { value: number; screen: number; major: boolean }[] = [];
+  for (let i = 0; first + i * minor <= last; i++) {
+    const value = first + i * minor;
+    ticks.push({ value, screen: value * zoom + offset, major: Math.abs(Math.round(value / step) * step - value) < minor / 2 });
+  }
+  return ticks;
+};
+
+export const Rulers: React.FC<RulersProps> = ({ zoom, pan, cursor, onGuideDragStart }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [viewport, setViewport] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const measure = () => {
+      const parent = containerRef.current?.parentElement;
+      if (parent) setViewport({ width: parent.clientWidth, height: parent.clientHeight });
+    };
+    measure();
+    window.addEventListener('resize', measure);
+    return () => window.removeEventListener('resize', measure);
+  }, []);
+
+  // Rulers start after the corner square, so shift the pan into their space
+  const offsetX = pan.x - RULER_SIZE;
+  const offsetY = pan.y - RULER_SIZE;
+  const horizontalTicks = getTicks(zoom, offsetX, viewport.width - RULER_SIZE);
+  const verticalTicks = getTicks(zoom, offsetY, viewport.height - RULER_SIZE);
+
+  const startDrag = (orientation: Guide['orientation']) => (e: React.MouseEvent) => {
+    // Keep the canvas from treating this as a click on the artwork
+    e.stopPropagation();
+    onGuideDragStart(orientation, e);
+  };
+
+  return (
+    <div ref={containerRef} className="absolute inset-0 pointer-events-none z-20 select-none">
+      {/* Top ruler: drag down for a horizontal guide */}
+      <svg
+        className="absolute top-0 bg-gray-800 border-b border-gray-600 pointer-events-auto cursor-row-resize"
+        style={{ left: RULER_SIZE, width: viewport.width - RULER_SIZE, height: RULER_SIZE }}
+        onMouseDown={startDrag('horizontal')}
+      >
+        {horizontalTicks.map(tick => (
+          <g key={tick.value}>
+            <line
+              x1={tick.screen}
+              y1={tick.major ? 0 : RULER_SIZE * 0.7}
+              x2={tick.screen}
+              y2={RULER_SIZE}
+              stroke="#9CA3AF"
+              strokeWidth="1"
+            />
+            {tick.major && (
+              <text x={tick.screen + 3} y={9} fontSize="9" fill="#D1D5DB">
+                {Math.round(tick.value)}
+              </text>
+            )}
+          </g>
+        ))}
+        {cursor && (
+          <line
+            x1={cursor.x * zoom + offsetX}
+            y1={0}
+            x2={cursor.x * zoom + offsetX}
+            y2={RULER_SIZE}
+            stroke="#3B82F6"
+            strokeWidth="1"
+          />
+        )}
+      </svg>
+
+      {/* Left ruler: drag right for a vertical guide */}
+      <svg
+        className="absolute left-0 bg-gray-800 border-r border-gray-600 pointer-events-auto cursor-col-resize"
+        style={{ top: RULER_SIZE, width: RULER_SIZE, height: viewport.height - RULER_SIZE }}
+        onMouseDown={startDrag('vertical')}
+      >
+        {verticalTicks.map(tick => (
+          <g key={tick.value}>
+            <line
+              x1={tick.major ? 0 : RULER_SIZE * 0.7}
+              y1={tick.screen}
+              x2={RULER_SIZE}
+              y2={tick.screen}
+              stroke="#9CA3AF"
+              strokeWidth="1"
+            />
+            {tick.major && (
+              <text
+                x={9}
+                y={tick.screen + 3}
+                fontSize="9"
+                fill="#D1D5DB"
+                textAnchor="end"
+                transform={`rotate(-90 9 ${tick.screen + 3})`}
+              >
+                {Math.round(tick.value)}
+              </text>
+            )}
+          </g>
+        ))}
+        {cursor && (
+          <line
+            x1={0}
+            y1={cursor.y * zoom + offsetY}
+            x2={RULER_SIZE}
+            y2={cursor.y * zoom + offsetY}
+            stroke="#3B82F6"
+            strokeWidth="1"
+          />
+        )}
+      </svg>
+
+      {/* Corner */}
+      <div
+        className="absolute top-0 left-0 bg-gray-800 border-r border-b border-gray-600 pointer-events-auto"
+        style={{ width: RULER_SIZE, height: RULER_SIZE }}
+        onMouseDown={e => e.stopPropagation()}
+      />
+    </div>
+  );
+};
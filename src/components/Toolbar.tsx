@@ -1,6 +1,7 @@
 import React from 'react';
 import { 
   MousePointer, 
+  MousePointer2,
   Pen, 
   Square, 
   Circle, 
@@ -29,6 +30,7 @@ const toolGroups = [
     name: 'Selection',
     tools: [
       { id: 'select', icon: MousePointer, label: 'Selection Tool (V)', shortcut: 'V', color: 'blue' },
+      { id: 'node', icon: MousePointer2, label: 'Direct Selection Tool (A)', shortcut: 'A', color: 'sky' },
       { id: 'hand', icon: Hand, label: 'Hand Tool (H)', shortcut: 'H', color: 'green' },
       { id: 'zoom', icon: ZoomIn, label: 'Zoom Tool (Z)', shortcut: 'Z', color: 'indigo' },
     ]
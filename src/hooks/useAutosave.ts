@@ -0,0 +1,129 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { ProjectData } from '../types';
+import { AutosaveRecord, clearAutosave, readAutosave, writeAutosave } from '../utils/autosave';
+
+// A change is written this long after the last one, so a drag or a run of
+// keystrokes is saved once
+const AUTOSAVE_DELAY = 1000;
+
+const isSameProject = (a: ProjectData, b: ProjectData) => {
+  return a.layers === b.layers
+    && a.activeLayerId === b.activeLayerId
+    && a.artboards === b.artboards
+    && a.activeArtboardId === b.activeArtboardId
+    && a.guides === b.guides;
+};
+
+// Keeps a working copy of the project in IndexedDB while it differs from the
+// last explicit save. Work left there by a session that never saved is
+// offered back through `recovery` before anything new is written.
+export const useAutosave = (project: ProjectData, onRecover: (project: ProjectData) => void) => {
+  const [recovery, setRecovery] = useState<AutosaveRecord | null>(null);
+  const [isReady, setIsReady] = useState(false);
+  const [lastAutosavedAt, setLastAutosavedAt] = useState<number | null>(null);
+
+  const projectRef = useRef(project);
+  projectRef.current = project;
+  // The project as last saved, or as first opened; matching it means there
+  // is nothing to recover
+  const cleanRef = useRef(project);
+  const pendingRef = useRef<ProjectData | null>(null);
+  // Writes and clears run one after another, in the order they were asked
+  // for. A write hashes its images before it reaches the database, so
+  // otherwise a clear from a save could land first and the stale copy after.
+  const storageRef = useRef<Promise<void>>(Promise.resolve());
+
+  const queueStorage = useCallback((task: () => Promise<void>, failure: string) => {
+    storageRef.current = storageRef.current
+      .then(task)
+      .catch(error => console.error(failure, error));
+  }, []);
+
+  const queueClear = useCallback(() => {
+    queueStorage(async () => {
+      await clearAutosave();
+      setLastAutosavedAt(null);
+    }, 'Failed to clear autosave:');
+  }, [queueStorage]);
+
+  useEffect(() => {
+    readAutosave()
+      .then(record => {
+        if (record) {
+          setRecovery(record);
+        } else {
+          setIsReady(true);
+        }
+      })
+      .catch(error => {
+        console.error('Failed to read autosave:', error);
+        setIsReady(true);
+      });
+  }, []);
+
+  const flush = useCallback(() => {
+    const pending = pendingRef.current;
+    if (!pending) return;
+    pendingRef.current = null;
+
+    if (isSameProject(pending, cleanRef.current)) {
+      queueClear();
+    } else {
+      queueStorage(async () => {
+        await writeAutosave(pending);
+        setLastAutosavedAt(Date.now());
+      }, 'Failed to autosave:');
+    }
+  }, [queueStorage, queueClear]);
+
+  // The project object is rebuilt on every render; what it holds is not
+  const { layers, activeLayerId, artboards, activeArtboardId, guides } = project;
+  useEffect(() => {
+    if (!isReady) return;
+    pendingRef.current = projectRef.current;
+    const timer = setTimeout(flush, AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [layers, activeLayerId, artboards, activeArtboardId, guides, isReady, flush]);
+
+  // Don't lose the last second of work when the tab is hidden or closed
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flush();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('pagehide', flush);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('pagehide', flush);
+    };
+  }, [flush]);
+
+  const recover = useCallback(() => {
+    if (recovery) onRecover(recovery.project);
+    setRecovery(null);
+    setIsReady(true);
+  }, [recovery, onRecover]);
+
+  const discard = useCallback(() => {
+    queueClear();
+    setRecovery(null);
+    setIsReady(true);
+  }, [queueClear]);
+
+  // Called with the project once it is saved somewhere safer, or opened
+  // from there. Later changes are autosaved as they come.
+  const markSaved = useCallback((project: ProjectData) => {
+    cleanRef.current = project;
+    pendingRef.current = null;
+    queueClear();
+  }, [queueClear]);
+
+  return {
+    recovery,
+    hasUnsavedChanges: !isSameProject(project, cleanRef.current),
+    lastAutosavedAt,
+    recover,
+    discard,
+    markSaved
+  };
+};
@@ -1,5 +1,11 @@
 import { useState, useCallback, useRef } from 'react';
-import { CanvasState, CanvasObject, Layer, Tool, Point, HistoryState } from '../types';
+import { CanvasState, CanvasObject, Alignment, AlignReference, Artboard, BooleanOperation, BoundingBox, DistributeMode, GroupObject, Guide, Layer, PathObject, Tool, Point, HistoryState, ProjectData } from '../types';
+import { booleanContours, getBoundingBox, getObjectOutline, getObjectSegments, transformToMatrix } from '../utils/geometry';
+import { getAlignOffsets, getBoxesBounds, getDistributeOffsets } from '../utils/align';
+import { ArtboardPreset, DEFAULT_ARTBOARD_SIZE, getArtboardBox, getNextArtboardPosition } from '../utils/artboards';
+import { applyParentMatrix, findObject, removeObjectsFromTree, updateObjectInTree } from '../utils/objects';
+import { getSubpaths, polylineToSegments, transformSegments } from '../utils/path';
+import { getObjectsLabel, isSameDocument, jumpToHistory, recordChange, redoHistory, undoHistory } from '../utils/history';
 
 const createInitialState = (): CanvasState => ({
   layers: [{
@@ -14,9 +20,92 @@ const createInitialState = (): CanvasState => ({
   zoom: 1,
   pan: { x: 100, y: 100 },
   tool: 'select',
-  canvasSize: { width: 4000, height: 4000 }
+  artboards: [{ id: 'artboard-1', name: 'Artboard 1', x: 0, y: 0, ...DEFAULT_ARTBOARD_SIZE }],
+  activeArtboardId: 'artboard-1',
+  guides: []
 });
 
+// Removes the given top-level objects, putting the replacements where the
+// anchor object was
+const replaceObjects = (layers: Layer[], objectIds: string[], anchorId: string, replacements: CanvasObject[]): Layer[] => {
+  return layers.map(layer => ({
+    ...layer,
+    objects: layer.objects.flatMap(obj => {
+      if (obj.id === anchorId) return replacements;
+      return objectIds.includes(obj.id) ? [] : [obj];
+    })
+  }));
+};
+
+const getActiveArtboard = (state: CanvasState): Artboard => {
+  return state.artboards.find(artboard => artboard.id === state.activeArtboardId) || state.artboards[0];
+};
+
+const BOOLEAN_OPERATION_LABELS: Record<BooleanOperation, string> = {
+  union: 'Unite',
+  subtract: 'Minus Front',
+  intersect: 'Intersect',
+  exclude: 'Exclude'
+};
+
+// Names an object edit in the history after the properties it changed.
+// Style and transform updates carry the whole record, so they are compared
+// with the object to find what actually differs.
+const getUpdateLabel = (target: CanvasObject | undefined, updates: Partial<CanvasObject>): string => {
+  const changed = <T extends object>(next: T, current: T | undefined) =>
+    (Object.keys(next) as (keyof T)[]).filter(key => !current || next[key] !== current[key]) as string[];
+
+  if (updates.transform) {
+    const keys = changed(updates.transform, target?.transform);
+    if (keys.includes('rotation')) return 'Rotate';
+    if (keys.includes('scaleX') || keys.includes('scaleY')) return 'Scale';
+    return 'Move';
+  }
+  if (updates.style) {
+    const keys = changed(updates.style, target?.style);
+    if (keys.some(key => ['fill', 'fillOpacity', 'fillRule', 'gradient'].includes(key))) return 'Change Fill';
+    if (keys.some(key => ['stroke', 'strokeWidth', 'strokeOpacity'].includes(key))) return 'Change Stroke';
+    if (keys.includes('opacity')) return 'Change Opacity';
+    return 'Change Style';
+  }
+
+  const keys = Object.keys(updates);
+  if (keys.some(key => ['width', 'height', 'radius', 'rx', 'ry'].includes(key))) return 'Resize';
+  if (keys.includes('segments') || keys.includes('points')) return 'Edit Path';
+  if (keys.includes('content')) return 'Edit Text';
+  if (keys.some(key => ['fontSize', 'fontFamily', 'fontWeight'].includes(key))) return 'Change Font';
+  if (keys.includes('visible')) return updates.visible ? 'Show Object' : 'Hide Object';
+  if (keys.includes('locked')) return updates.locked ? 'Lock Object' : 'Unlock Object';
+  return 'Edit Object';
+};
+
+// An update that changes the object's type, as when a skewed rect becomes
+// a path, replaces it rather than leaving the old type's fields behind
+const mergeUpdates = (obj: CanvasObject, updates: Partial<CanvasObject>): CanvasObject => {
+  return (updates.type && updates.type !== obj.type ? updates : { ...obj, ...updates }) as CanvasObject;
+};
+
+const ALIGNMENT_LABELS: Record<Alignment, string> = {
+  left: 'Align Left',
+  center: 'Align Center',
+  right: 'Align Right',
+  top: 'Align Top',
+  middle: 'Align Middle',
+  bottom: 'Align Bottom'
+};
+
+// Moves top-level objects by the offsets given for their ids
+const translateObjects = (layers: Layer[], offsets: Map<string, Point>): Layer[] => {
+  return layers.map(layer => ({
+    ...layer,
+    objects: layer.objects.map(obj => {
+      const offset = offsets.get(obj.id);
+      if (!offset) return obj;
+      return { ...obj, transform: { ...obj.transform, x: obj.transform.x + offset.x, y: obj.transform.y + offset.y } };
+    })
+  }));
+};
+
 export const useCanvas = () => {
   const [history, setHistory] = useState<HistoryState>({
     past: [],
@@ -27,109 +116,339 @@ export const useCanvas = () => {
   const { present: state } = history;
   const nextObjectId = useRef(1);
 
-  const pushToHistory = useCallback((newState: CanvasState) => {
-    setHistory(prev => ({
-      past: [...prev.past.slice(-50), prev.present], // Keep last 50 states
-      present: newState,
-      future: []
-    }));
+  // A drag or other gesture in progress: its changes go straight to the
+  // present and become a single undo step when it ends. The base is read
+  // from the latest state once queued updates, such as the selection made
+  // by the click that started the drag, have been applied.
+  const transactionRef = useRef<{ label: string; base: CanvasState | null } | null>(null);
+
+  // Records a change as an undo step. The change may be a function of the
+  // latest state, so several updates in one event all take effect.
+  const pushToHistory = useCallback((
+    change: CanvasState | ((current: CanvasState) => CanvasState),
+    label: string,
+    coalesceKey?: string
+  ) => {
+    setHistory(prev => {
+      const next = typeof change === 'function' ? change(prev.present) : change;
+      return transactionRef.current
+        ? { ...prev, present: next }
+        : recordChange(prev, next, label, coalesceKey);
+    });
   }, []);
 
-  const undo = useCallback(() => {
+  const beginTransaction = useCallback((label: string) => {
+    if (transactionRef.current) return;
+    const transaction: { label: string; base: CanvasState | null } = { label, base: null };
+    transactionRef.current = transaction;
     setHistory(prev => {
-      if (prev.past.length === 0) return prev;
-      
-      const previous = prev.past[prev.past.length - 1];
-      const newPast = prev.past.slice(0, prev.past.length - 1);
-      
-      return {
-        past: newPast,
-        present: previous,
-        future: [prev.present, ...prev.future.slice(0, 49)] // Keep last 50 states
-      };
+      if (!transaction.base) transaction.base = prev.present;
+      return prev;
     });
   }, []);
 
-  const redo = useCallback(() => {
+  // A gesture that left the document as it was, such as a click that only
+  // selected something, adds no step
+  const endTransaction = useCallback(() => {
+    const transaction = transactionRef.current;
+    if (!transaction) return;
+    transactionRef.current = null;
     setHistory(prev => {
-      if (prev.future.length === 0) return prev;
-      
-      const next = prev.future[0];
-      const newFuture = prev.future.slice(1);
-      
-      return {
-        past: [...prev.past, prev.present],
-        present: next,
-        future: newFuture
-      };
+      const base = transaction.base || prev.present;
+      return isSameDocument(base, prev.present)
+        ? prev
+        : recordChange(prev, prev.present, transaction.label, undefined, base);
     });
   }, []);
 
+  const undo = useCallback(() => {
+    setHistory(undoHistory);
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(redoHistory);
+  }, []);
+
+  // Moves through the history until `pastLength` steps are undoable
+  const jumpToStep = useCallback((pastLength: number) => {
+    setHistory(prev => jumpToHistory(prev, pastLength));
+  }, []);
+
   const setTool = useCallback((tool: Tool) => {
-    const newState = { ...state, tool, selectedObjectIds: [] };
-    setHistory(prev => ({ ...prev, present: newState }));
-  }, [state]);
+    setHistory(prev => ({ ...prev, present: { ...prev.present, tool, selectedObjectIds: [] } }));
+  }, []);
 
   const addObject = useCallback((obj: Omit<CanvasObject, 'id'>) => {
     const newObject = { ...obj, id: `obj-${nextObjectId.current++}` } as CanvasObject;
-    const activeLayer = state.layers.find(layer => layer.id === state.activeLayerId);
-    
-    if (!activeLayer) return;
 
-    const newLayers = state.layers.map(layer => 
-      layer.id === state.activeLayerId 
-        ? { ...layer, objects: [...layer.objects, newObject] }
-        : layer
-    );
+    // Built on the latest state, as an import adds several objects at once
+    pushToHistory(current => {
+      if (!current.layers.some(layer => layer.id === current.activeLayerId)) return current;
+
+      const newLayers = current.layers.map(layer => 
+        layer.id === current.activeLayerId 
+          ? { ...layer, objects: [...layer.objects, newObject] }
+          : layer
+      );
+
+      return { 
+        ...current, 
+        layers: newLayers,
+        selectedObjectIds: [newObject.id]
+      };
+    }, 'Add Object');
+  }, [pushToHistory]);
+
+  // Applies one edit to several objects as a single undo step, each object
+  // getting the updates `getUpdates` gives for it. Repeating the edit on the
+  // same objects, as when a slider is scrubbed, coalesces into that step.
+  const updateObjects = useCallback((objectIds: string[], getUpdates: (obj: CanvasObject) => Partial<CanvasObject>) => {
+    if (objectIds.length === 0) return;
+
+    const allObjects = state.layers.flatMap(layer => layer.objects);
+    const target = findObject(allObjects, objectIds[0]);
+    const label = getUpdateLabel(target, target ? getUpdates(target) : {});
+    pushToHistory(current => ({
+      ...current,
+      layers: current.layers.map(layer => ({
+        ...layer,
+        objects: objectIds.reduce(
+          (objects, objectId) => updateObjectInTree(objects, objectId, obj => mergeUpdates(obj, getUpdates(obj))),
+          layer.objects
+        )
+      }))
+    }), label, `objects:${objectIds.join(',')}:${label}`);
+  }, [state, pushToHistory]);
+
+  const updateObject = useCallback((objectId: string, updates: Partial<CanvasObject>) => {
+    updateObjects([objectId], () => updates);
+  }, [updateObjects]);
+
+  const deleteObjects = useCallback((objectIds: string[]) => {
+    if (objectIds.length === 0) return;
+
+    const newLayers = state.layers.map(layer => ({
+      ...layer,
+      objects: removeObjectsFromTree(layer.objects, objectIds)
+    }));
 
     const newState = { 
       ...state, 
       layers: newLayers,
-      selectedObjectIds: [newObject.id]
+      selectedObjectIds: state.selectedObjectIds.filter(id => !objectIds.includes(id))
     };
-    pushToHistory(newState);
+    pushToHistory(newState, getObjectsLabel('Delete', objectIds.length));
   }, [state, pushToHistory]);
 
-  const updateObject = useCallback((objectId: string, updates: Partial<CanvasObject>) => {
+  const deleteObject = useCallback((objectId: string) => {
+    deleteObjects([objectId]);
+  }, [deleteObjects]);
+
+  // Wraps the selected top-level objects in a group placed where the topmost
+  // of them was, in that object's layer
+  const groupObjects = useCallback((objectIds: string[]) => {
+    const members = state.layers.flatMap(layer => layer.objects.filter(obj => objectIds.includes(obj.id)));
+    if (members.length === 0) return;
+
+    const topmost = members[members.length - 1];
+    const targetLayerId = state.layers.find(layer => layer.objects.includes(topmost))!.id;
+
+    const group: GroupObject = {
+      id: `obj-${nextObjectId.current++}`,
+      type: 'group',
+      transform: { x: 0, y: 0, rotation: 0, scaleX: 1, scaleY: 1 },
+      style: {
+        fill: 'none',
+        stroke: 'none',
+        strokeWidth: 0,
+        opacity: 1,
+        fillOpacity: 1,
+        strokeOpacity: 1,
+        gradient: null
+      },
+      visible: true,
+      locked: false,
+      selected: false,
+      children: members
+    };
+
     const newLayers = state.layers.map(layer => ({
       ...layer,
-      objects: layer.objects.map(obj => 
-        obj.id === objectId ? { ...obj, ...updates } : obj
-      )
+      objects: layer.objects.flatMap(obj => {
+        if (layer.id === targetLayerId && obj.id === topmost.id) return [group];
+        return objectIds.includes(obj.id) ? [] : [obj];
+      })
     }));
 
-    const newState = { ...state, layers: newLayers };
-    setHistory(prev => ({ ...prev, present: newState }));
-  }, [state]);
+    pushToHistory({ ...state, layers: newLayers, selectedObjectIds: [group.id] }, getObjectsLabel('Group', members.length));
+  }, [state, pushToHistory]);
+
+  // Replaces selected top-level groups with their children, folding the
+  // group's transform and opacity into each child
+  const ungroupObjects = useCallback((objectIds: string[]) => {
+    const releasedIds: string[] = [];
 
-  const deleteObject = useCallback((objectId: string) => {
     const newLayers = state.layers.map(layer => ({
       ...layer,
-      objects: layer.objects.filter(obj => obj.id !== objectId)
+      objects: layer.objects.flatMap(obj => {
+        if (obj.type !== 'group' || !objectIds.includes(obj.id)) return [obj];
+
+        const groupMatrix = transformToMatrix(obj.transform);
+        return obj.children.map(child => {
+          releasedIds.push(child.id);
+          const released = applyParentMatrix(child, groupMatrix);
+          return { ...released, style: { ...released.style, opacity: released.style.opacity * obj.style.opacity } };
+        });
+      })
     }));
 
-    const newState = { 
-      ...state, 
-      layers: newLayers,
-      selectedObjectIds: state.selectedObjectIds.filter(id => id !== objectId)
+    if (releasedIds.length === 0) return;
+    pushToHistory({ ...state, layers: newLayers, selectedObjectIds: releasedIds }, 'Ungroup');
+  }, [state, pushToHistory]);
+
+  // Combines the selected top-level shapes into one path that takes the place
+  // of the topmost operand. Subtract removes the others from the bottom-most
+  // operand and keeps its style; the other operations take the topmost style.
+  const booleanOperation = useCallback((objectIds: string[], operation: BooleanOperation) => {
+    const operands = state.layers.flatMap(layer => layer.objects.filter(obj =>
+      objectIds.includes(obj.id) && !obj.locked && getObjectOutline(obj) !== null
+    ));
+    if (operands.length < 2) return;
+
+    const contours = booleanContours(
+      operands.map(obj => getObjectOutline(obj)!),
+      operation,
+      operands.map(obj => obj.style.fillRule || 'nonzero')
+    );
+    const topmost = operands[operands.length - 1];
+    const operandIds = operands.map(obj => obj.id);
+
+    const result: PathObject = {
+      id: `obj-${nextObjectId.current++}`,
+      type: 'path',
+      transform: { x: 0, y: 0, rotation: 0, scaleX: 1, scaleY: 1 },
+      style: { ...(operation === 'subtract' ? operands[0] : topmost).style, fillRule: 'nonzero' },
+      visible: true,
+      locked: false,
+      selected: false,
+      segments: contours.flatMap(contour => polylineToSegments(contour, true))
+    };
+
+    // Operands that do not overlap at all can leave nothing behind
+    const replacement = result.segments.length > 0 ? [result] : [];
+    const newLayers = replaceObjects(state.layers, operandIds, topmost.id, replacement);
+
+    pushToHistory({ ...state, layers: newLayers, selectedObjectIds: replacement.map(obj => obj.id) }, BOOLEAN_OPERATION_LABELS[operation]);
+  }, [state, pushToHistory]);
+
+  // Joins the selected shapes, unchanged, as the subpaths of one path in the
+  // topmost one's place. It takes the bottom-most style with the even-odd
+  // rule, so shapes inside others become holes.
+  const makeCompoundPath = useCallback((objectIds: string[]) => {
+    const members = state.layers.flatMap(layer => layer.objects.filter(obj =>
+      objectIds.includes(obj.id) && !obj.locked && getObjectSegments(obj) !== null
+    ));
+    if (members.length < 2) return;
+
+    const compound: PathObject = {
+      id: `obj-${nextObjectId.current++}`,
+      type: 'path',
+      transform: { x: 0, y: 0, rotation: 0, scaleX: 1, scaleY: 1 },
+      style: { ...members[0].style, fillRule: 'evenodd' },
+      visible: true,
+      locked: false,
+      selected: false,
+      segments: members.flatMap(obj => transformSegments(getObjectSegments(obj)!, transformToMatrix(obj.transform)))
     };
-    pushToHistory(newState);
+
+    const newLayers = replaceObjects(state.layers, members.map(obj => obj.id), members[members.length - 1].id, [compound]);
+    pushToHistory({ ...state, layers: newLayers, selectedObjectIds: [compound.id] }, 'Make Compound Path');
+  }, [state, pushToHistory]);
+
+  // Splits selected top-level paths into one path per subpath
+  const releaseCompoundPath = useCallback((objectIds: string[]) => {
+    const releasedIds: string[] = [];
+
+    const newLayers = state.layers.map(layer => ({
+      ...layer,
+      objects: layer.objects.flatMap(obj => {
+        if (obj.type !== 'path' || !objectIds.includes(obj.id)) return [obj];
+
+        const subpaths = getSubpaths(obj.segments);
+        if (subpaths.length < 2) return [obj];
+
+        return subpaths.map(segments => {
+          const released: PathObject = { ...obj, id: `obj-${nextObjectId.current++}`, segments };
+          releasedIds.push(released.id);
+          return released;
+        });
+      })
+    }));
+
+    if (releasedIds.length === 0) return;
+    pushToHistory({ ...state, layers: newLayers, selectedObjectIds: releasedIds }, 'Release Compound Path');
+  }, [state, pushToHistory]);
+
+  // Lines up the selected top-level objects' boxes with the reference box.
+  // Locked objects and the key object stay where they are.
+  const alignObjects = useCallback((
+    objectIds: string[],
+    alignment: Alignment,
+    reference: AlignReference,
+    keyObjectId?: string
+  ) => {
+    const members = state.layers.flatMap(layer => layer.objects.filter(obj => objectIds.includes(obj.id)));
+    const keyObject = reference === 'keyObject' ? members.find(obj => obj.id === keyObjectId) : undefined;
+    if (reference === 'keyObject' && !keyObject) return;
+    if (members.length < (reference === 'artboard' ? 1 : 2)) return;
+
+    const boxes = members.map(obj => getBoundingBox(obj));
+    const target: BoundingBox = reference === 'artboard'
+      ? getArtboardBox(getActiveArtboard(state))
+      : keyObject ? getBoundingBox(keyObject) : getBoxesBounds(boxes);
+
+    const offsets = new Map<string, Point>();
+    getAlignOffsets(boxes, alignment, target).forEach((offset, i) => {
+      if (!members[i].locked && members[i] !== keyObject) offsets.set(members[i].id, offset);
+    });
+
+    pushToHistory({ ...state, layers: translateObjects(state.layers, offsets) }, ALIGNMENT_LABELS[alignment]);
+  }, [state, pushToHistory]);
+
+  // Spreads the selected top-level objects evenly across the selection, or
+  // across the active artboard when aligning to it
+  const distributeObjects = useCallback((
+    objectIds: string[],
+    axis: 'horizontal' | 'vertical',
+    mode: DistributeMode,
+    reference: AlignReference
+  ) => {
+    const members = state.layers.flatMap(layer => layer.objects.filter(obj => objectIds.includes(obj.id) && !obj.locked));
+    const span = reference === 'artboard' ? getArtboardBox(getActiveArtboard(state)) : undefined;
+    if (members.length < (span ? 1 : 3)) return;
+
+    const offsets = new Map<string, Point>();
+    getDistributeOffsets(members.map(obj => getBoundingBox(obj)), axis, mode, span).forEach((offset, i) => {
+      offsets.set(members[i].id, offset);
+    });
+
+    pushToHistory(
+      { ...state, layers: translateObjects(state.layers, offsets) },
+      axis === 'horizontal' ? 'Distribute Horizontally' : 'Distribute Vertically'
+    );
   }, [state, pushToHistory]);
 
   const selectObjects = useCallback((objectIds: string[]) => {
-    const newState = { ...state, selectedObjectIds: objectIds };
-    setHistory(prev => ({ ...prev, present: newState }));
-  }, [state]);
+    setHistory(prev => ({ ...prev, present: { ...prev.present, selectedObjectIds: objectIds } }));
+  }, []);
 
   const setZoom = useCallback((zoom: number) => {
-    const newState = { ...state, zoom: Math.max(0.1, Math.min(5, zoom)) };
-    setHistory(prev => ({ ...prev, present: newState }));
-  }, [state]);
+    setHistory(prev => ({ ...prev, present: { ...prev.present, zoom: Math.max(0.1, Math.min(5, zoom)) } }));
+  }, []);
 
   const setPan = useCallback((pan: Point) => {
-    const newState = { ...state, pan };
-    setHistory(prev => ({ ...prev, present: newState }));
-  }, [state]);
+    setHistory(prev => ({ ...prev, present: { ...prev.present, pan } }));
+  }, []);
 
   const addLayer = useCallback(() => {
     const newLayer: Layer = {
@@ -145,7 +464,7 @@ export const useCanvas = () => {
       layers: [...state.layers, newLayer],
       activeLayerId: newLayer.id
     };
-    pushToHistory(newState);
+    pushToHistory(newState, 'Add Layer');
   }, [state, pushToHistory]);
 
   const deleteLayer = useCallback((layerId: string) => {
@@ -161,17 +480,16 @@ export const useCanvas = () => {
       layers: newLayers,
       activeLayerId: newActiveLayerId
     };
-    pushToHistory(newState);
+    pushToHistory(newState, 'Delete Layer');
   }, [state, pushToHistory]);
 
   const updateLayer = useCallback((layerId: string, updates: Partial<Layer>) => {
-    const newLayers = state.layers.map(layer => 
-      layer.id === layerId ? { ...layer, ...updates } : layer
-    );
-
-    const newState = { ...state, layers: newLayers };
-    setHistory(prev => ({ ...prev, present: newState }));
-  }, [state]);
+    const keys = Object.keys(updates).sort();
+    pushToHistory(current => ({
+      ...current,
+      layers: current.layers.map(layer => layer.id === layerId ? { ...layer, ...updates } : layer)
+    }), keys.includes('name') ? 'Rename Layer' : 'Edit Layer', `layer:${layerId}:${keys.join(',')}`);
+  }, [pushToHistory]);
 
   const moveLayer = useCallback((layerId: string, direction: 'up' | 'down') => {
     console.log('moveLayer called:', layerId, direction);
@@ -200,29 +518,73 @@ export const useCanvas = () => {
     console.log('New layers order:', newLayers.map(l => ({ id: l.id, name: l.name })));
 
     const newState = { ...state, layers: newLayers };
-    pushToHistory(newState);
-  }, [state, pushToHistory]);
-
-  const loadProject = useCallback((data: any) => {
-    try {
-      const newState: CanvasState = {
-        layers: data.layers || createInitialState().layers,
-        activeLayerId: data.activeLayerId || data.layers?.[0]?.id || 'layer-1',
-        selectedObjectIds: [],
-        zoom: 1,
-        pan: { x: 100, y: 100 },
-        tool: 'select',
-        canvasSize: data.canvasSize || { width: 4000, height: 4000 }
-      };
-      
-      setHistory({
-        past: [],
-        present: newState,
-        future: []
-      });
-    } catch (error) {
-      console.error('Failed to load project:', error);
-    }
+    pushToHistory(newState, 'Move Layer');
+  }, [state, pushToHistory]);
+
+  const addArtboard = useCallback((preset: ArtboardPreset) => {
+    const artboard: Artboard = {
+      id: `artboard-${Date.now()}`,
+      name: `Artboard ${state.artboards.length + 1}`,
+      ...getNextArtboardPosition(state.artboards),
+      width: preset.width,
+      height: preset.height
+    };
+    pushToHistory({ ...state, artboards: [...state.artboards, artboard], activeArtboardId: artboard.id }, 'Add Artboard');
+  }, [state, pushToHistory]);
+
+  const deleteArtboard = useCallback((artboardId: string) => {
+    if (state.artboards.length <= 1) return;
+
+    const artboards = state.artboards.filter(artboard => artboard.id !== artboardId);
+    const activeArtboardId = artboardId === state.activeArtboardId ? artboards[0].id : state.activeArtboardId;
+    pushToHistory({ ...state, artboards, activeArtboardId }, 'Delete Artboard');
+  }, [state, pushToHistory]);
+
+  const updateArtboard = useCallback((artboardId: string, updates: Partial<Artboard>) => {
+    const keys = Object.keys(updates).sort();
+    pushToHistory(current => ({
+      ...current,
+      artboards: current.artboards.map(artboard => artboard.id === artboardId ? { ...artboard, ...updates } : artboard)
+    }), keys.includes('name') ? 'Rename Artboard' : 'Edit Artboard', `artboard:${artboardId}:${keys.join(',')}`);
+  }, [pushToHistory]);
+
+  const setActiveArtboard = useCallback((artboardId: string) => {
+    setHistory(prev => ({ ...prev, present: { ...prev.present, activeArtboardId: artboardId } }));
+  }, []);
+
+  const addGuide = useCallback((orientation: Guide['orientation'], position: number) => {
+    const guide: Guide = { id: `guide-${Date.now()}`, orientation, position };
+    pushToHistory({ ...state, guides: [...state.guides, guide] }, 'Add Guide');
+  }, [state, pushToHistory]);
+
+  const moveGuide = useCallback((guideId: string, position: number) => {
+    pushToHistory({
+      ...state,
+      guides: state.guides.map(guide => guide.id === guideId ? { ...guide, position } : guide)
+    }, 'Move Guide');
+  }, [state, pushToHistory]);
+
+  const removeGuide = useCallback((guideId: string) => {
+    pushToHistory({ ...state, guides: state.guides.filter(guide => guide.id !== guideId) }, 'Remove Guide');
+  }, [state, pushToHistory]);
+
+  // Replaces the document, starting a fresh history, and returns the state
+  // loaded. The project comes from parseProject, already checked.
+  const loadProject = useCallback((project: ProjectData): CanvasState => {
+    const newState: CanvasState = {
+      ...project,
+      selectedObjectIds: [],
+      zoom: 1,
+      pan: { x: 100, y: 100 },
+      tool: 'select'
+    };
+    
+    setHistory({
+      past: [],
+      present: newState,
+      future: []
+    });
+    return newState;
   }, []);
 
   return {
@@ -231,10 +593,22 @@ export const useCanvas = () => {
     redo,
     canUndo: history.past.length > 0,
     canRedo: history.future.length > 0,
+    past: history.past,
+    future: history.future,
+    jumpToStep,
     setTool,
     addObject,
     updateObject,
+    updateObjects,
     deleteObject,
+    deleteObjects,
+    groupObjects,
+    ungroupObjects,
+    booleanOperation,
+    makeCompoundPath,
+    releaseCompoundPath,
+    alignObjects,
+    distributeObjects,
     selectObjects,
     setZoom,
     setPan,
@@ -242,6 +616,15 @@ export const useCanvas = () => {
     deleteLayer,
     updateLayer,
     moveLayer,
+    beginTransaction,
+    endTransaction,
+    addArtboard,
+    deleteArtboard,
+    updateArtboard,
+    setActiveArtboard,
+    addGuide,
+    moveGuide,
+    removeGuide,
     loadProject
   };
 };
\ No newline at end of file
@@ -18,18 +18,51 @@ export interface Transform {
   scaleY: number;
 }
 
+// 2D affine matrix in SVG order: [a c e; b d f; 0 0 1]
+export interface Matrix {
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  e: number;
+  f: number;
+}
+
 export interface GradientStop {
   offset: number;
   color: string;
   opacity: number;
 }
 
+export interface LinearGradientVector {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+export interface RadialGradientShape {
+  cx: number;
+  cy: number;
+  r: number;
+  fx: number;
+  fy: number;
+}
+
 export interface Gradient {
   type: 'linear' | 'radial';
   stops: GradientStop[];
   angle?: number;
+  // Explicit geometry, as imported from SVG. Without it a linear gradient runs
+  // across the object's box along `angle` and a radial one is centered on it.
+  linearVector?: LinearGradientVector;
+  radialShape?: RadialGradientShape;
+  gradientUnits?: 'objectBoundingBox' | 'userSpaceOnUse';
+  gradientTransform?: Matrix;
 }
 
+export type FillRule = 'nonzero' | 'evenodd';
+
 export interface StyleProperties {
   fill: string;
   stroke: string;
@@ -38,6 +71,8 @@ export interface StyleProperties {
   fillOpacity: number;
   strokeOpacity: number;
   gradient?: Gradient | null;
+  // Decides which regions of overlapping subpaths are holes; nonzero when unset
+  fillRule?: FillRule;
 }
 
 export interface BaseObject {
@@ -63,10 +98,58 @@ export interface CircleObject extends BaseObject {
   radius: number;
 }
 
+export interface MoveSegment {
+  type: 'M';
+  x: number;
+  y: number;
+}
+
+export interface LineSegment {
+  type: 'L';
+  x: number;
+  y: number;
+}
+
+export interface CubicSegment {
+  type: 'C';
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  x: number;
+  y: number;
+}
+
+export interface QuadraticSegment {
+  type: 'Q';
+  x1: number;
+  y1: number;
+  x: number;
+  y: number;
+}
+
+export interface ArcSegment {
+  type: 'A';
+  rx: number;
+  ry: number;
+  xAxisRotation: number;
+  largeArc: boolean;
+  sweep: boolean;
+  x: number;
+  y: number;
+}
+
+export interface CloseSegment {
+  type: 'Z';
+}
+
+// Absolute-coordinate path segments; every subpath starts with an 'M'. A path
+// with several subpaths is a compound path, its holes set by the fill rule.
+export type PathSegment = MoveSegment | LineSegment | CubicSegment | QuadraticSegment | ArcSegment | CloseSegment;
+
 export interface PathObject extends BaseObject {
   type: 'path';
-  points: Point[];
-  closed: boolean;
+  segments: PathSegment[];
 }
 
 export interface CurveObject extends BaseObject {
@@ -94,6 +177,7 @@ export interface LineObject extends BaseObject {
 
 export interface ImageObject extends BaseObject {
   type: 'image';
+  // A data URL while open; inside a packaged project, `asset:<sha256>`
   src: string;
   width: number;
   height: number;
@@ -101,7 +185,24 @@ export interface ImageObject extends BaseObject {
   originalHeight: number;
 }
 
-export type CanvasObject = RectObject | CircleObject | PathObject | CurveObject | TextObject | LineObject | ImageObject;
+// Children are positioned in the group's local space; the group's own
+// transform places them all on the canvas
+export interface GroupObject extends BaseObject {
+  type: 'group';
+  children: CanvasObject[];
+}
+
+export type CanvasObject = RectObject | CircleObject | PathObject | CurveObject | TextObject | LineObject | ImageObject | GroupObject;
+
+export type BooleanOperation = 'union' | 'subtract' | 'intersect' | 'exclude';
+
+export type Alignment = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+
+export type DistributeMode = 'centers' | 'spacing';
+
+// What a selection is aligned to: its own box, one of its objects (which
+// stays put), or the artboard
+export type AlignReference = 'selection' | 'keyObject' | 'artboard';
 
 export interface Layer {
   id: string;
@@ -111,6 +212,25 @@ export interface Layer {
   objects: CanvasObject[];
 }
 
+// A fixed-size page within the document, in canvas coordinates. Export works
+// per artboard and the active one is what objects are aligned to.
+export interface Artboard {
+  id: string;
+  name: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// A ruler guide across the whole canvas: a vertical guide sits at
+// x = position, a horizontal one at y = position
+export interface Guide {
+  id: string;
+  orientation: 'horizontal' | 'vertical';
+  position: number;
+}
+
 export interface CanvasState {
   layers: Layer[];
   activeLayerId: string;
@@ -118,17 +238,62 @@ export interface CanvasState {
   zoom: number;
   pan: Point;
   tool: string;
-  canvasSize: { width: number; height: number };
+  artboards: Artboard[];
+  activeArtboardId: string;
+  guides: Guide[];
+}
+
+// The document itself, as saved to a file or autosaved, without view state
+export interface ProjectData {
+  layers: Layer[];
+  activeLayerId: string;
+  artboards: Artboard[];
+  activeArtboardId: string;
+  guides: Guide[];
+}
+
+// A project as written out: the document plus the format version it was
+// saved in, which decides how it is migrated when opened
+export interface ProjectFile extends ProjectData {
+  version: number;
+  application: string;
+  savedAt: string;
+}
+
+export interface SnapSettings {
+  // Snap to other objects' edges and centers, path nodes and guides
+  smartGuides: boolean;
+  grid: boolean;
+  gridSize: number;
+}
+
+// Sets the value at `path` within the canvas state; undefined removes the key
+export interface Patch {
+  path: (string | number)[];
+  value: unknown;
+}
+
+// One undoable step, stored as the changes it made rather than a snapshot
+export interface HistoryEntry {
+  label: string;
+  patches: Patch[];
+  inversePatches: Patch[];
+  // Approximate bytes the entry keeps alive
+  size: number;
+  timestamp: number;
+  // Quick successive changes with the same key merge into one entry
+  coalesceKey?: string;
 }
 
 export interface HistoryState {
-  past: CanvasState[];
+  past: HistoryEntry[];
   present: CanvasState;
-  future: CanvasState[];
+  future: HistoryEntry[];
 }
 
 export type Tool = 
   | 'select'
+  | 'node'
   | 'pen'
   | 'curve'
   | 'rect'
@@ -0,0 +1,77 @@
+import { Alignment, BoundingBox, DistributeMode, Point } from '../types';
+import { getPointsBounds } from './geometry';
+
+export const getBoxesBounds = (boxes: BoundingBox[]): BoundingBox => {
+  return getPointsBounds(boxes.flatMap(box => [
+    { x: box.x, y: box.y },
+    { x: box.x + box.width, y: box.y + box.height }
+  ]));
+};
+
+// How far each box has to move for its edge or center to line up with the
+// same edge or center of `reference`
+export const getAlignOffsets = (boxes: BoundingBox[], alignment: Alignment, reference: BoundingBox): Point[] => {
+  return boxes.map(box => {
+    switch (alignment) {
+      case 'left':
+        return { x: reference.x - box.x, y: 0 };
+      case 'center':
+        return { x: reference.x + reference.width / 2 - (box.x + box.width / 2), y: 0 };
+      case 'right':
+        return { x: reference.x + reference.width - (box.x + box.width), y: 0 };
+      case 'top':
+        return { x: 0, y: reference.y - box.y };
+      case 'middle':
+        return { x: 0, y: reference.y + reference.height / 2 - (box.y + box.height / 2) };
+      case 'bottom':
+        return { x: 0, y: reference.y + reference.height - (box.y + box.height) };
+    }
+  });
+};
+
+// How far each box has to move to spread the boxes evenly along one axis,
+// in their current order, between the ends of `span`. 'centers' spaces the
+// centers equally; 'spacing' leaves equal gaps between neighbouring boxes.
+// Without a span the outermost boxes stay where they are.
+export const getDistributeOffsets = (
+  boxes: BoundingBox[],
+  axis: 'horizontal' | 'vertical',
+  mode: DistributeMode,
+  span?: BoundingBox
+): Point[] => {
+  const offsets = boxes.map(() => ({ x: 0, y: 0 }));
+  if (boxes.length < (span ? 1 : 3)) return offsets;
+
+  const start = (box: BoundingBox) => axis === 'horizontal' ? box.x : box.y;
+  const size = (box: BoundingBox) => axis === 'horizontal' ? box.width : box.height;
+  const center = (box: BoundingBox) => start(box) + size(box) / 2;
+
+  const order = boxes.map((_, i) => i).sort((a, b) => center(boxes[a]) - center(boxes[b]));
+  const first = boxes[order[0]];
+  const last = boxes[order[order.length - 1]];
+  const setOffset = (index: number, delta: number) => {
+    offsets[index] = axis === 'horizontal' ? { x: delta, y: 0 } : { x: 0, y: delta };
+  };
+
+  if (mode === 'centers') {
+    const from = span ? start(span) + size(first) / 2 : center(first);
+    const to = span ? start(span) + size(span) - size(last) / 2 : center(last);
+    const step = order.length > 1 ? (to - from) / (order.length - 1) : 0;
+    order.forEach((index, i) => {
+      // A lone box is centered in the span
+      const target = order.length > 1 ? from + step * i : (from + to) / 2;
+      setOffset(index, target - center(boxes[index]));
+    });
+  } else {
+    const extent = span || getBoxesBounds(boxes);
+    const total = order.reduce((sum, index) => sum + size(boxes[index]), 0);
+    const gap = order.length > 1 ? (size(extent) - total) / (order.length - 1) : 0;
+    let position = order.length > 1 ? start(extent) : start(extent) + (size(extent) - total) / 2;
+    order.forEach(index => {
+      setOffset(index, position - start(boxes[index]));
+      position += size(boxes[index]) + gap;
+    });
+  }
+
+  return offsets;
+};
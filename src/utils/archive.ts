@@ -0,0 +1,80 @@
+import { strFromU8, strToU8, unzipSync, zipSync, Zippable } from 'fflate';
+import { ProjectData } from '../types';
+import { Asset, dataUrlToAsset, extractAssets, getAssetExtension, getExtensionMimeType, resolveAssets } from './assets';
+import { downloadFile } from './export';
+import { createThumbnail } from './library';
+import { ProjectLoadError, parseProject, serializeProject } from './project';
+
+// A packaged project is a zip holding:
+//   document.json        the project, with images referring to assets
+//   assets/<hash>.<ext>  each distinct image once, named by its SHA-256
+//   thumbnail.png        a preview of the active artboard, if it rendered
+export const PROJECT_ARCHIVE_EXTENSION = '.vsproj';
+
+const DOCUMENT_ENTRY = 'document.json';
+const ASSETS_FOLDER = 'assets/';
+const THUMBNAIL_ENTRY = 'thumbnail.png';
+
+const ASSET_ENTRY_PATTERN = /^assets\/([0-9a-f]{64})\.(\w+)$/;
+
+export const isProjectArchive = (filename: string) => filename.toLowerCase().endsWith(PROJECT_ARCHIVE_EXTENSION);
+
+export const getProjectFilename = (name: string) => {
+  const base = name.trim().replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '') || 'design';
+  return base + PROJECT_ARCHIVE_EXTENSION;
+};
+
+export const createProjectArchive = async (project: ProjectData): Promise<Blob> => {
+  const { project: packaged, assets } = await extractAssets(project);
+
+  const files: Zippable = {
+    [DOCUMENT_ENTRY]: strToU8(JSON.stringify(serializeProject(packaged), null, 2))
+  };
+  assets.forEach((asset, hash) => {
+    // Images are compressed already
+    files[`${ASSETS_FOLDER}${hash}.${getAssetExtension(asset.mimeType)}`] = [asset.bytes, { level: 0 }];
+  });
+
+  const thumbnail = dataUrlToAsset(await createThumbnail(project));
+  if (thumbnail && thumbnail.bytes.length > 0) {
+    files[THUMBNAIL_ENTRY] = [thumbnail.bytes, { level: 0 }];
+  }
+
+  return new Blob([zipSync(files)], { type: 'application/zip' });
+};
+
+export const readProjectArchive = async (buffer: ArrayBuffer): Promise<ProjectData> => {
+  let entries: Record<string, Uint8Array>;
+  try {
+    entries = unzipSync(new Uint8Array(buffer));
+  } catch {
+    throw new ProjectLoadError('This file is damaged or is not a VectorStudio project.');
+  }
+
+  if (!entries[DOCUMENT_ENTRY]) {
+    throw new ProjectLoadError(`This project package has no ${DOCUMENT_ENTRY}.`);
+  }
+  let data: unknown;
+  try {
+    data = JSON.parse(strFromU8(entries[DOCUMENT_ENTRY]));
+  } catch {
+    throw new ProjectLoadError(`The ${DOCUMENT_ENTRY} in this project package is not valid JSON.`);
+  }
+
+  const assets = new Map<string, Asset>();
+  Object.entries(entries).forEach(([name, bytes]) => {
+    const match = ASSET_ENTRY_PATTERN.exec(name);
+    if (match) assets.set(match[1], { bytes, mimeType: getExtensionMimeType(match[2]) });
+  });
+
+  const { project, issues } = resolveAssets(parseProject(data), assets);
+  if (issues.length > 0) {
+    throw new ProjectLoadError(`The project package is missing ${issues.length} image${issues.length === 1 ? '' : 's'}:`, issues);
+  }
+  return project;
+};
+
+export const saveProjectArchive = async (project: ProjectData, filename: string) => {
+  const blob = await createProjectArchive(project);
+  downloadFile(URL.createObjectURL(blob), filename);
+};
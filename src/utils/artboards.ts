@@ -0,0 +1,38 @@
+import { Artboard, BoundingBox, Point } from '../types';
+
+export interface ArtboardPreset {
+  name: string;
+  width: number;
+  height: number;
+}
+
+// Sizes in CSS pixels, 96 to the inch, so print sizes come out right in PDF
+export const ARTBOARD_PRESETS: ArtboardPreset[] = [
+  { name: 'A4', width: 794, height: 1123 },
+  { name: 'A3', width: 1123, height: 1587 },
+  { name: 'Letter', width: 816, height: 1056 },
+  { name: 'iPhone 15', width: 393, height: 852 },
+  { name: 'iPhone 15 Pro Max', width: 430, height: 932 },
+  { name: 'Social Post', width: 1080, height: 1080 },
+  { name: 'Social Story', width: 1080, height: 1920 },
+  { name: 'Desktop HD', width: 1920, height: 1080 }
+];
+
+export const DEFAULT_ARTBOARD_SIZE = { width: 1920, height: 1080 };
+
+// Space left between an artboard and the next one added beside it
+const ARTBOARD_GAP = 100;
+
+export const getArtboardBox = (artboard: Artboard): BoundingBox => ({
+  x: artboard.x,
+  y: artboard.y,
+  width: artboard.width,
+  height: artboard.height
+});
+
+// New artboards go to the right of the existing ones, top-aligned with the first
+export const getNextArtboardPosition = (artboards: Artboard[]): Point => {
+  if (artboards.length === 0) return { x: 0, y: 0 };
+  const right = Math.max(...artboards.map(artboard => artboard.x + artboard.width));
+  return { x: right + ARTBOARD_GAP, y: artboards[0].y };
+};
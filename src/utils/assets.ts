@@ -0,0 +1,190 @@
+import { CanvasObject, Layer, ProjectData } from '../types';
+import { ASSETS_STORE, AUTOSAVE_STORE, PROJECTS_STORE, runTransaction } from './database';
+import { ValidationIssue } from './schema';
+
+// Binary content such as an embedded image, stored once however many
+// objects use it and named by the SHA-256 of its bytes
+export interface Asset {
+  bytes: Uint8Array;
+  mimeType: string;
+}
+
+// An image `src` of `asset:<hash>` refers to an asset instead of holding
+// the data inline
+export const ASSET_REF_PREFIX = 'asset:';
+
+const ASSET_REF_PATTERN = /asset:([0-9a-f]{64})/g;
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'image/bmp': 'bmp'
+};
+
+const DATA_URL_PATTERN = /^data:([^;,]*)((?:;[^;,]*)*),(.*)$/s;
+
+// Image types missing from the table, such as image/avif, are named by
+// their subtype, which getExtensionMimeType maps back
+const IMAGE_SUBTYPE_PATTERN = /^image\/(\w+)$/;
+
+export const getAssetExtension = (mimeType: string): string => {
+  return MIME_EXTENSIONS[mimeType] || IMAGE_SUBTYPE_PATTERN.exec(mimeType)?.[1] || 'bin';
+};
+
+export const getExtensionMimeType = (extension: string): string => {
+  const lower = extension.toLowerCase();
+  if (lower === 'jpeg') return 'image/jpeg';
+  if (lower === 'bin') return 'application/octet-stream';
+  return Object.keys(MIME_EXTENSIONS).find(mimeType => MIME_EXTENSIONS[mimeType] === lower) || `image/${lower}`;
+};
+
+export const hashAsset = async (bytes: Uint8Array): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const dataUrlToAsset = (dataUrl: string): Asset | null => {
+  const match = DATA_URL_PATTERN.exec(dataUrl);
+  if (!match) return null;
+
+  const [, mimeType, parameters, data] = match;
+  if (parameters.split(';').includes('base64')) {
+    const binary = atob(data);
+    return { bytes: Uint8Array.from(binary, char => char.charCodeAt(0)), mimeType: mimeType || 'text/plain' };
+  }
+  return { bytes: new TextEncoder().encode(decodeURIComponent(data)), mimeType: mimeType || 'text/plain' };
+};
+
+export const assetToDataUrl = (asset: Asset): string => {
+  // btoa takes a binary string; build it in chunks to stay within the
+  // argument limit of String.fromCharCode
+  let binary = '';
+  for (let i = 0; i < asset.bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...asset.bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${asset.mimeType};base64,${btoa(binary)}`;
+};
+
+// Rewrites the `src` of every image, at any depth, keeping everything else
+const mapImageSources = (project: ProjectData, map: (src: string, path: string) => string): ProjectData => {
+  const mapObject = (obj: CanvasObject, path: string): CanvasObject => {
+    if (obj.type === 'image') {
+      const src = map(obj.src, `${path}.src`);
+      return src === obj.src ? obj : { ...obj, src };
+    }
+    if (obj.type === 'group') {
+      return { ...obj, children: obj.children.map((child, i) => mapObject(child, `${path}.children[${i}]`)) };
+    }
+    return obj;
+  };
+
+  return {
+    ...project,
+    layers: project.layers.map((layer: Layer, i) => ({
+      ...layer,
+      objects: layer.objects.map((obj, j) => mapObject(obj, `layers[${i}].objects[${j}]`))
+    }))
+  };
+};
+
+// Moves inline image data out of the project into assets, so an image used
+// by several objects is kept once. Sources that are not data URLs stay put.
+export const extractAssets = async (project: ProjectData): Promise<{ project: ProjectData; assets: Map<string, Asset> }> => {
+  const assets = new Map<string, Asset>();
+  const refs = new Map<string, string>();
+
+  const sources = new Set<string>();
+  mapImageSources(project, src => {
+    sources.add(src);
+    return src;
+  });
+  for (const src of sources) {
+    const asset = dataUrlToAsset(src);
+    if (!asset) continue;
+    const hash = await hashAsset(asset.bytes);
+    assets.set(hash, asset);
+    refs.set(src, `${ASSET_REF_PREFIX}${hash}`);
+  }
+
+  return { project: mapImageSources(project, src => refs.get(src) || src), assets };
+};
+
+// Puts asset data back inline. Objects sharing an asset share one data URL
+// string. References to assets that are not there are reported, not thrown.
+export const resolveAssets = (project: ProjectData, assets: Map<string, Asset>): { project: ProjectData; issues: ValidationIssue[] } => {
+  const dataUrls = new Map<string, string>();
+  const issues: ValidationIssue[] = [];
+
+  const resolved = mapImageSources(project, (src, path) => {
+    if (!src.startsWith(ASSET_REF_PREFIX)) return src;
+
+    const hash = src.slice(ASSET_REF_PREFIX.length);
+    const asset = assets.get(hash);
+    if (!asset) {
+      issues.push({ path, message: `missing asset ${hash}` });
+      return src;
+    }
+    if (!dataUrls.has(hash)) dataUrls.set(hash, assetToDataUrl(asset));
+    return dataUrls.get(hash)!;
+  });
+
+  return { project: resolved, issues };
+};
+
+// Hashes of the assets a project, or a stored record holding one, refers to
+export const getAssetRefs = (value: unknown): Set<string> => {
+  const refs = new Set<string>();
+  for (const match of (JSON.stringify(value) || '').matchAll(ASSET_REF_PATTERN)) refs.add(match[1]);
+  return refs;
+};
+
+// Adds the assets the store does not have yet, as part of `transaction`, so
+// they land together with the project referring to them
+export const storeAssets = (transaction: IDBTransaction, assets: Map<string, Asset>) => {
+  const store = transaction.objectStore(ASSETS_STORE);
+  assets.forEach((asset, hash) => {
+    const request = store.count(hash);
+    request.onsuccess = () => {
+      // Copy, so a view into a larger buffer does not store all of it
+      if (request.result === 0) store.put({ bytes: asset.bytes.slice(), mimeType: asset.mimeType }, hash);
+    };
+  });
+};
+
+// Reads the given assets; ones the store does not have are left out
+export const loadAssets = async (hashes: Iterable<string>): Promise<Map<string, Asset>> => {
+  const assets = new Map<string, Asset>();
+  await runTransaction([ASSETS_STORE], 'readonly', transaction => {
+    const store = transaction.objectStore(ASSETS_STORE);
+    for (const hash of hashes) {
+      const request = store.get(hash);
+      request.onsuccess = () => {
+        if (request.result) assets.set(hash, request.result);
+      };
+    }
+  });
+  return assets;
+};
+
+// Deletes the assets neither the autosave nor any library document refers
+// to. Needs a readwrite transaction over those stores and the assets.
+export const deleteUnusedAssets = (transaction: IDBTransaction) => {
+  const records = [AUTOSAVE_STORE, PROJECTS_STORE].map(name => transaction.objectStore(name).getAll());
+  const store = transaction.objectStore(ASSETS_STORE);
+  const keys = store.getAllKeys();
+  // Requests in a transaction complete in order, so the records are read
+  keys.onsuccess = () => {
+    const used = getAssetRefs(records.map(request => request.result));
+    keys.result.forEach(key => {
+      if (!used.has(String(key))) store.delete(key);
+    });
+  };
+};
+
+// Puts the data of stored assets back into a project read from the database
+export const resolveStoredAssets = async (project: ProjectData): Promise<{ project: ProjectData; issues: ValidationIssue[] }> => {
+  return resolveAssets(project, await loadAssets(getAssetRefs(project)));
+};
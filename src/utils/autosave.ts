@@ -0,0 +1,52 @@
+import { ProjectData } from '../types';
+import { deleteUnusedAssets, extractAssets, resolveStoredAssets, storeAssets } from './assets';
+import { ASSETS_STORE, AUTOSAVE_STORE, PROJECTS_STORE, runTransaction } from './database';
+import { parseProject, serializeProject } from './project';
+
+// There is a single working copy, kept under one key
+const AUTOSAVE_KEY = 'current';
+
+export interface AutosaveRecord {
+  project: ProjectData;
+  savedAt: number;
+}
+
+// Images go to the asset store, so the record holds only references and
+// an image also in a library document is stored once
+export const writeAutosave = async (project: ProjectData): Promise<void> => {
+  const { project: stored, assets } = await extractAssets(project);
+  const record = { project: serializeProject(stored), savedAt: Date.now() };
+  await runTransaction([AUTOSAVE_STORE, ASSETS_STORE], 'readwrite', transaction => {
+    storeAssets(transaction, assets);
+    transaction.objectStore(AUTOSAVE_STORE).put(record, AUTOSAVE_KEY);
+  });
+};
+
+// The working copy is stored as a project file and migrated on the way
+// out; one that can no longer be read is not worth offering back
+export const readAutosave = async (): Promise<AutosaveRecord | null> => {
+  const record = await runTransaction<{ project: unknown; savedAt: number } | undefined>([AUTOSAVE_STORE], 'readonly', transaction =>
+    transaction.objectStore(AUTOSAVE_STORE).get(AUTOSAVE_KEY)
+  );
+  if (!record) return null;
+
+  let parsed: ProjectData;
+  try {
+    parsed = parseProject(record.project);
+  } catch (error) {
+    console.warn('Ignoring unreadable autosave:', error);
+    return null;
+  }
+
+  // The rest of the work is still worth recovering without a lost image
+  const { project, issues } = await resolveStoredAssets(parsed);
+  if (issues.length > 0) console.warn('Autosave is missing images:', issues);
+  return { project, savedAt: record.savedAt };
+};
+
+export const clearAutosave = async (): Promise<void> => {
+  await runTransaction([AUTOSAVE_STORE, PROJECTS_STORE, ASSETS_STORE], 'readwrite', transaction => {
+    transaction.objectStore(AUTOSAVE_STORE).delete(AUTOSAVE_KEY);
+    deleteUnusedAssets(transaction);
+  });
+};
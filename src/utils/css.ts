@@ -0,0 +1,71 @@
+export type StyleDeclarations = Record<string, string>;
+
+export interface CssRule {
+  selector: string;
+  specificity: number;
+  order: number;
+  declarations: StyleDeclarations;
+}
+
+// Parses `prop: value; prop: value` as found in style attributes and rule bodies
+export const parseDeclarations = (text: string): StyleDeclarations => {
+  const declarations: StyleDeclarations = {};
+  text.split(';').forEach(part => {
+    const colon = part.indexOf(':');
+    if (colon === -1) return;
+    const property = part.slice(0, colon).trim().toLowerCase();
+    const value = part.slice(colon + 1).replace(/!important/i, '').trim();
+    if (property && value) declarations[property] = value;
+  });
+  return declarations;
+};
+
+// Weighs ids, then classes/attributes/pseudo-classes, then type selectors,
+// packed into one comparable number
+const getSpecificity = (selector: string): number => {
+  const ids = (selector.match(/#[\w-]+/g) || []).length;
+  const classes = (selector.match(/\.[\w-]+|\[[^\]]*\]|:(?!:)[\w-]+/g) || []).length;
+  const types = (selector.replace(/[#.:][\w-]+|\[[^\]]*\]/g, ' ').match(/[a-zA-Z][\w-]*/g) || []).length;
+  return ids * 10000 + classes * 100 + types;
+};
+
+// Minimal stylesheet parser: comments and at-rules are skipped, every
+// selector in a comma list becomes its own rule
+export const parseStyleSheet = (css: string, startOrder: number = 0): CssRule[] => {
+  const rules: CssRule[] = [];
+  const source = css.replace(/\/\*[\s\S]*?\*\//g, '').replace(/<!\[CDATA\[|\]\]>/g, '');
+  const rulePattern = /([^{}]+)\{([^{}]*)\}/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = rulePattern.exec(source)) !== null) {
+    const selectorText = match[1].trim();
+    if (selectorText.startsWith('@')) continue;
+
+    const declarations = parseDeclarations(match[2]);
+    selectorText.split(',').map(sel => sel.trim()).filter(Boolean).forEach(selector => {
+      rules.push({
+        selector,
+        specificity: getSpecificity(selector),
+        order: startOrder + rules.length,
+        declarations
+      });
+    });
+  }
+
+  return rules;
+};
+
+// Cascades matching rules by specificity then source order; selectors the
+// DOM cannot evaluate are ignored rather than aborting the whole import
+export const getMatchedDeclarations = (element: Element, rules: CssRule[]): StyleDeclarations => {
+  return rules
+    .filter(rule => {
+      try {
+        return element.matches(rule.selector);
+      } catch {
+        return false;
+      }
+    })
+    .sort((a, b) => a.specificity - b.specificity || a.order - b.order)
+    .reduce<StyleDeclarations>((result, rule) => ({ ...result, ...rule.declarations }), {});
+};
@@ -0,0 +1,63 @@
+// The app's IndexedDB database. Bump the version when adding a store;
+// the upgrade creates whichever stores are missing.
+const DB_NAME = 'vectorstudio';
+const DB_VERSION = 3;
+
+export const AUTOSAVE_STORE = 'autosave';
+// Library documents: the small summaries that are listed, and the projects
+// themselves, stored apart so listing never loads whole documents
+export const DOCUMENTS_STORE = 'documents';
+export const PROJECTS_STORE = 'projects';
+// Images shared by the autosave and library documents, keyed by the
+// SHA-256 of their bytes
+export const ASSETS_STORE = 'assets';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(AUTOSAVE_STORE)) {
+          db.createObjectStore(AUTOSAVE_STORE);
+        }
+        if (!db.objectStoreNames.contains(DOCUMENTS_STORE)) {
+          db.createObjectStore(DOCUMENTS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+          db.createObjectStore(PROJECTS_STORE);
+        }
+        if (!db.objectStoreNames.contains(ASSETS_STORE)) {
+          db.createObjectStore(ASSETS_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        // Let a later call try again, e.g. once storage is available
+        databasePromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return databasePromise;
+};
+
+// Runs requests against one or more stores and settles when the transaction
+// does, so a resolved write is known to be on disk. Resolves with the result
+// of the request `run` returns, if any.
+export const runTransaction = async <T = undefined>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  run: (transaction: IDBTransaction) => IDBRequest<T> | void
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeNames, mode);
+    const request = run(transaction);
+    transaction.oncomplete = () => resolve(request ? request.result : undefined as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
@@ -1,5 +1,10 @@
-import { CanvasObject, Layer, Gradient } from '../types';
-import jsPDF from 'jspdf';
+import { BoundingBox, CanvasObject, FillRule, ImageObject, Layer, Gradient, Matrix, PathSegment, Point, TextObject } from '../types';
+import { dataUrlToAsset } from './assets';
+import { CssRule, StyleDeclarations, getMatchedDeclarations, parseDeclarations, parseStyleSheet } from './css';
+import { applyMatrix, getBoundingBox, getObjectSegments, identityMatrix, invertMatrix, matrixToTransform, multiplyMatrices, rotationMatrix, scaleMatrix, transformToMatrix, translationMatrix } from './geometry';
+import { flattenObjects } from './objects';
+import { ellipseToSegments, getSegmentsBounds, parsePathData, polylineToSegments, rectToSegments, segmentsToPathData, smoothCurveToSegments, toEditableSegments, transformSegments } from './path';
+import jsPDF, { GState, ShadingPattern } from 'jspdf';
 
 export interface ExportOptions {
   format: 'svg' | 'png' | 'jpg' | 'pdf' | 'webp' | 'ai';
@@ -10,7 +15,8 @@ export interface ExportOptions {
   backgroundColor?: string;
 }
 
-export const generateSVG = (layers: Layer[], canvasSize: { width: number; height: number }): string => {
+// Renders the part of the canvas inside `area`, which becomes the document's viewBox
+export const generateSVG = (layers: Layer[], area: BoundingBox): string => {
   const svgElements = layers
     .filter(layer => layer.visible)
     .flatMap(layer => 
@@ -22,13 +28,13 @@ export const generateSVG = (layers: Layer[], canvasSize: { width: number; height
   const gradientDefs = layers
     .filter(layer => layer.visible)
     .flatMap(layer => 
-      layer.objects
+      flattenObjects(layer.objects)
         .filter(obj => obj.visible && obj.style.gradient)
         .map(obj => generateGradientDef(obj.style.gradient!, `gradient-${obj.id}`))
     );
 
   return `
-<svg width="${canvasSize.width}" height="${canvasSize.height}" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${canvasSize.width} ${canvasSize.height}">
+<svg width="${area.width}" height="${area.height}" xmlns="http://www.w3.org/2000/svg" viewBox="${area.x} ${area.y} ${area.width} ${area.height}">
   <defs>
     <style>
       .smooth-edges { 
@@ -42,33 +48,53 @@ export const generateSVG = (layers: Layer[], canvasSize: { width: number; height
 </svg>`.trim();
 };
 
-const generateGradientDef = (gradient: Gradient, id: string): string => {
+// Attributes shared by the exported <defs> and the on-canvas gradients, so
+// both place a gradient identically
+export const getGradientAttributes = (gradient: Gradient): Record<string, string | number> => {
+  const attributes: Record<string, string | number> = {};
+
   if (gradient.type === 'linear') {
     const angle = gradient.angle || 0;
-    const x1 = 50 + 50 * Math.cos((angle - 90) * Math.PI / 180);
-    const y1 = 50 + 50 * Math.sin((angle - 90) * Math.PI / 180);
-    const x2 = 50 + 50 * Math.cos((angle + 90) * Math.PI / 180);
-    const y2 = 50 + 50 * Math.sin((angle + 90) * Math.PI / 180);
-    
-    return `<linearGradient id="${id}" x1="${x1}%" y1="${y1}%" x2="${x2}%" y2="${y2}%">
-      ${gradient.stops.map(stop => 
-        `<stop offset="${stop.offset * 100}%" stop-color="${stop.color}" stop-opacity="${stop.opacity}" />`
-      ).join('\n      ')}
-    </linearGradient>`;
+    Object.assign(attributes, gradient.linearVector || {
+      x1: 0.5 + 0.5 * Math.cos((angle - 90) * Math.PI / 180),
+      y1: 0.5 + 0.5 * Math.sin((angle - 90) * Math.PI / 180),
+      x2: 0.5 + 0.5 * Math.cos((angle + 90) * Math.PI / 180),
+      y2: 0.5 + 0.5 * Math.sin((angle + 90) * Math.PI / 180)
+    });
   } else {
-    return `<radialGradient id="${id}" cx="50%" cy="50%" r="50%">
+    Object.assign(attributes, gradient.radialShape || { cx: 0.5, cy: 0.5, r: 0.5, fx: 0.5, fy: 0.5 });
+  }
+
+  if (gradient.gradientUnits) {
+    attributes.gradientUnits = gradient.gradientUnits;
+  }
+  if (gradient.gradientTransform) {
+    const { a, b, c, d, e, f } = gradient.gradientTransform;
+    attributes.gradientTransform = `matrix(${a} ${b} ${c} ${d} ${e} ${f})`;
+  }
+
+  return attributes;
+};
+
+const generateGradientDef = (gradient: Gradient, id: string): string => {
+  const tag = gradient.type === 'linear' ? 'linearGradient' : 'radialGradient';
+  const attributes = Object.entries(getGradientAttributes(gradient))
+    .map(([name, value]) => `${name}="${value}"`)
+    .join(' ');
+
+  return `<${tag} id="${id}" ${attributes}>
       ${gradient.stops.map(stop => 
         `<stop offset="${stop.offset * 100}%" stop-color="${stop.color}" stop-opacity="${stop.opacity}" />`
       ).join('\n      ')}
-    </radialGradient>`;
-  }
+    </${tag}>`;
 };
 
 const objectToSVG = (obj: CanvasObject): string => {
   const { transform, style } = obj;
   const transformStr = `translate(${transform.x},${transform.y}) rotate(${transform.rotation * 180 / Math.PI}) scale(${transform.scaleX},${transform.scaleY})`;
   const fillValue = style.gradient ? `url(#gradient-${obj.id})` : style.fill;
-  const styleStr = `fill="${fillValue}" stroke="${style.stroke}" stroke-width="${style.strokeWidth}" opacity="${style.opacity}" fill-opacity="${style.fillOpacity}" stroke-opacity="${style.strokeOpacity}"`;
+  const fillRuleStr = style.fillRule === 'evenodd' ? ' fill-rule="evenodd"' : '';
+  const styleStr = `fill="${fillValue}" stroke="${style.stroke}" stroke-width="${style.strokeWidth}" opacity="${style.opacity}" fill-opacity="${style.fillOpacity}" stroke-opacity="${style.strokeOpacity}"${fillRuleStr}`;
 
   switch (obj.type) {
     case 'rect':
@@ -84,11 +110,15 @@ const objectToSVG = (obj: CanvasObject): string => {
       return `<text x="0" y="0" font-family="${obj.fontFamily}" font-size="${obj.fontSize}" font-weight="${obj.fontWeight}" dominant-baseline="central" ${styleStr} transform="${transformStr}" class="smooth-edges">${obj.content}</text>`;
     
     case 'path':
-      const pathData = obj.points.length > 0 ? 
-        `M ${obj.points[0].x} ${obj.points[0].y} ` + 
-        obj.points.slice(1).map(p => `L ${p.x} ${p.y}`).join(' ') +
-        (obj.closed ? ' Z' : '') : '';
-      return `<path d="${pathData}" ${styleStr} transform="${transformStr}" class="smooth-edges" />`;
+      return `<path d="${segmentsToPathData(obj.segments)}" ${styleStr} transform="${transformStr}" class="smooth-edges" />`;
+    
+    case 'curve':
+      return `<path d="${segmentsToPathData(smoothCurveToSegments(obj.points))}" ${styleStr} transform="${transformStr}" class="smooth-edges" />`;
+    
+    case 'group':
+      return `<g opacity="${style.opacity}" transform="${transformStr}">
+    ${obj.children.filter(child => child.visible).map(objectToSVG).join('\n    ')}
+  </g>`;
     
     case 'image':
       return `<image x="0" y="0" width="${obj.width}" height="${obj.height}" href="${obj.src}" ${styleStr} transform="${transformStr}" class="smooth-edges" />`;
@@ -100,50 +130,71 @@ const objectToSVG = (obj: CanvasObject): string => {
 
 export const exportCanvas = async (
   layers: Layer[], 
-  canvasSize: { width: number; height: number }, 
+  area: BoundingBox, 
   options: ExportOptions
 ): Promise<string> => {
   const { format, quality = 0.9, width, height, scale = 1, backgroundColor = 'white' } = options;
   
-  const exportWidth = width || canvasSize.width * scale;
-  const exportHeight = height || canvasSize.height * scale;
+  const exportWidth = width || area.width * scale;
+  const exportHeight = height || area.height * scale;
 
   switch (format) {
     case 'svg':
-      return exportSVG(layers, canvasSize);
+      return exportSVG(layers, area);
     
     case 'png':
     case 'jpg':
     case 'webp':
-      return exportRaster(layers, canvasSize, format, quality, exportWidth, exportHeight, backgroundColor);
+      return exportRaster(layers, area, format, quality, exportWidth, exportHeight, backgroundColor);
     
     case 'pdf':
-      return exportPDF(layers, canvasSize, exportWidth, exportHeight);
+      return exportPDF(layers, [{ area, width: exportWidth, height: exportHeight }]);
     
     case 'ai':
-      return exportAI(layers, canvasSize);
+      return exportAI(layers, area);
     
     default:
       throw new Error(`Unsupported format: ${format}`);
   }
 };
 
-const exportSVG = (layers: Layer[], canvasSize: { width: number; height: number }): string => {
-  const svgString = generateSVG(layers, canvasSize);
+// Exports several artboards at once: one file each, except for PDF where
+// they become the pages of a single document
+export const exportArtboards = async (
+  layers: Layer[],
+  artboards: BoundingBox[],
+  options: ExportOptions
+): Promise<string[]> => {
+  if (options.format === 'pdf') {
+    const scale = options.scale || 1;
+    const pages = artboards.map(area => ({ area, width: area.width * scale, height: area.height * scale }));
+    return [await exportPDF(layers, pages)];
+  }
+
+  // One at a time, so only one full-size raster is held in memory
+  const urls: string[] = [];
+  for (const artboard of artboards) {
+    urls.push(await exportCanvas(layers, artboard, options));
+  }
+  return urls;
+};
+
+const exportSVG = (layers: Layer[], area: BoundingBox): string => {
+  const svgString = generateSVG(layers, area);
   const blob = new Blob([svgString], { type: 'image/svg+xml' });
   return URL.createObjectURL(blob);
 };
 
-const exportRaster = async (
-  layers: Layer[], 
-  canvasSize: { width: number; height: number }, 
-  format: 'png' | 'jpg' | 'webp',
-  quality: number,
+// Draws an SVG document onto a canvas of the given size and encodes it
+const rasterizeSVG = (
+  svgString: string,
   width: number,
   height: number,
-  backgroundColor: string
+  mimeType: string,
+  quality?: number,
+  backgroundColor?: string
 ): Promise<string> => {
-  return new Promise((resolve) => {
+  return new Promise((resolve, reject) => {
     const canvas = document.createElement('canvas');
     const ctx = canvas.getContext('2d')!;
     canvas.width = width;
@@ -152,75 +203,389 @@ const exportRaster = async (
     ctx.imageSmoothingEnabled = true;
     ctx.imageSmoothingQuality = 'high';
 
-    if (format === 'jpg') {
+    if (backgroundColor) {
       ctx.fillStyle = backgroundColor;
       ctx.fillRect(0, 0, width, height);
     }
 
-    const svgString = generateSVG(layers, canvasSize);
     const img = new Image();
     const blob = new Blob([svgString], { type: 'image/svg+xml' });
     const url = URL.createObjectURL(blob);
 
     img.onload = () => {
       ctx.drawImage(img, 0, 0, width, height);
-      
-      const mimeType = format === 'jpg' ? 'image/jpeg' : `image/${format}`;
       const dataUrl = canvas.toDataURL(mimeType, quality);
       
       URL.revokeObjectURL(url);
       resolve(dataUrl);
     };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Failed to render SVG'));
+    };
 
     img.src = url;
   });
 };
 
-const exportPDF = async (
+// A small PNG preview of `area` on white, fitted within `size` pixels
+export const renderThumbnail = (layers: Layer[], area: BoundingBox, size: number = 240): Promise<string> => {
+  const scale = Math.min(size / area.width, size / area.height);
+  const width = Math.max(1, Math.round(area.width * scale));
+  const height = Math.max(1, Math.round(area.height * scale));
+  return rasterizeSVG(generateSVG(layers, area), width, height, 'image/png', undefined, '#ffffff');
+};
+
+const exportRaster = async (
   layers: Layer[], 
-  canvasSize: { width: number; height: number },
+  area: BoundingBox, 
+  format: 'png' | 'jpg' | 'webp',
+  quality: number,
   width: number,
-  height: number
+  height: number,
+  backgroundColor: string
 ): Promise<string> => {
+  const mimeType = format === 'jpg' ? 'image/jpeg' : `image/${format}`;
+  return rasterizeSVG(generateSVG(layers, area), width, height, mimeType, quality, format === 'jpg' ? backgroundColor : undefined);
+};
+
+interface PDFPage {
+  area: BoundingBox;
+  width: number;
+  height: number;
+}
+
+type RGB = [number, number, number];
+
+interface PDFColor {
+  rgb: RGB;
+  alpha: number;
+}
+
+const HEX_COLOR_PATTERN = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const RGB_COLOR_PATTERN = /^rgba?\(\s*([^)]*)\)$/i;
+
+const parseColorChannel = (value: string, max: number) => {
+  const number = parseFloat(value);
+  return value.trim().endsWith('%') ? number / 100 * max : number;
+};
+
+// Reads a CSS colour as RGB plus alpha, or null for no paint. Hex and rgb()
+// are read directly; anything else, such as a colour name, is left to the
+// browser to resolve.
+const parsePDFColor = (value: string, resolve: boolean = true): PDFColor | null => {
+  const color = value.trim();
+  if (!color || color === 'none' || color === 'transparent') return null;
+
+  const hex = HEX_COLOR_PATTERN.exec(color);
+  if (hex) {
+    const digits = hex[1].length <= 4 ? hex[1].replace(/./g, digit => digit + digit) : hex[1];
+    const channels = digits.match(/../g)!.map(pair => parseInt(pair, 16));
+    return { rgb: [channels[0], channels[1], channels[2]], alpha: channels.length > 3 ? channels[3] / 255 : 1 };
+  }
+
+  const rgb = RGB_COLOR_PATTERN.exec(color);
+  if (rgb) {
+    const parts = rgb[1].split(/[\s,/]+/).filter(Boolean);
+    if (parts.length < 3) return null;
+    return {
+      rgb: [0, 1, 2].map(i => Math.max(0, Math.min(255, parseColorChannel(parts[i], 255)))) as RGB,
+      alpha: parts.length > 3 ? Math.max(0, Math.min(1, parseColorChannel(parts[3], 1))) : 1
+    };
+  }
+
+  if (!resolve || typeof document === 'undefined') return null;
+  const ctx = document.createElement('canvas').getContext('2d');
+  if (!ctx) return null;
+  ctx.fillStyle = '#00000000';
+  ctx.fillStyle = color;
+  return parsePDFColor(String(ctx.fillStyle), false);
+};
+
+const getPDFFont = (obj: TextObject): { name: string; style: string } => {
+  const family = obj.fontFamily.toLowerCase();
+  const weight = parseInt(obj.fontWeight, 10);
+  const style = obj.fontWeight === 'bold' || obj.fontWeight === 'bolder' || weight >= 600 ? 'bold' : 'normal';
+
+  // Only the standard PDF fonts are available without embedding font files
+  if (/mono|courier|consolas|menlo/.test(family)) return { name: 'courier', style };
+  if (/times|georgia|garamond|(^|[^-])serif/.test(family)) return { name: 'times', style };
+  return { name: 'helvetica', style };
+};
+
+// Opacities are multiplied down from the enclosing groups. Unlike SVG, which
+// composites a group before fading it, overlapping children then show
+// through each other.
+const setPDFOpacity = (pdf: jsPDF, fill: number, stroke: number) => {
+  pdf.setGState(new GState({ opacity: fill, 'stroke-opacity': stroke }));
+};
+
+const tracePDFPath = (pdf: jsPDF, segments: PathSegment[]) => {
+  toEditableSegments(segments).forEach(seg => {
+    switch (seg.type) {
+      case 'M':
+        pdf.moveTo(seg.x, seg.y);
+        break;
+      case 'L':
+        pdf.lineTo(seg.x, seg.y);
+        break;
+      case 'C':
+        pdf.curveTo(seg.x1, seg.y1, seg.x2, seg.y2, seg.x, seg.y);
+        break;
+      case 'Z':
+        pdf.close();
+        break;
+    }
+  });
+};
+
+// Gradients become PDF shadings, registered once per object however many
+// pages show it. Stop opacities cannot be expressed in a shading and are
+// dropped; the shape's fill opacity still applies.
+const fillPDFGradient = (pdf: jsPDF, obj: CanvasObject, gradient: Gradient, segments: PathSegment[]): boolean => {
+  const stops = [...gradient.stops].sort((a, b) => a.offset - b.offset);
+  const colors = stops.map(stop => ({
+    offset: Math.max(0, Math.min(1, stop.offset)),
+    color: parsePDFColor(stop.color)?.rgb || [0, 0, 0]
+  }));
+  if (colors.length === 0) return false;
+  // Stops at the same offset make a hard edge; keep them in order for the
+  // sampler by nudging each later one along
+  for (let i = 1; i < colors.length; i++) {
+    if (colors[i].offset <= colors[i - 1].offset) colors[i].offset = Math.min(1, colors[i - 1].offset + 1e-6);
+  }
+
+  let matrix = gradient.gradientTransform || identityMatrix();
+  if (gradient.gradientUnits !== 'userSpaceOnUse') {
+    const box = getSegmentsBounds(segments);
+    if (box.width === 0 || box.height === 0) return false;
+    matrix = multiplyMatrices(
+      multiplyMatrices(translationMatrix(box.x, box.y), scaleMatrix(box.width, box.height)),
+      matrix
+    );
+  }
+
+  const attributes = getGradientAttributes(gradient) as Record<string, number>;
+  const coords = gradient.type === 'linear'
+    ? [attributes.x1, attributes.y1, attributes.x2, attributes.y2]
+    : [attributes.fx, attributes.fy, 0, attributes.cx, attributes.cy, attributes.r];
+
+  const key = `gradient-${obj.id}`;
+  pdf.addShadingPattern(key, new ShadingPattern(gradient.type === 'linear' ? 'axial' : 'radial', coords, colors));
+
+  const pattern = { key, matrix: pdf.Matrix(matrix.a, matrix.b, matrix.c, matrix.d, matrix.e, matrix.f) };
+  if (obj.style.fillRule === 'evenodd') {
+    pdf.fillEvenOdd(pattern);
+  } else {
+    pdf.fill(pattern);
+  }
+  return true;
+};
+
+const drawPDFShape = (pdf: jsPDF, obj: CanvasObject, segments: PathSegment[], opacity: number) => {
+  const { style } = obj;
+  const fill = style.gradient ? null : parsePDFColor(style.fill);
+  const stroke = style.strokeWidth > 0 ? parsePDFColor(style.stroke) : null;
+  const fillOpacity = opacity * style.fillOpacity * (fill?.alpha ?? 1);
+  const strokeOpacity = opacity * style.strokeOpacity * (stroke?.alpha ?? 1);
+  setPDFOpacity(pdf, fillOpacity, strokeOpacity);
+
+  if (style.gradient) {
+    tracePDFPath(pdf, segments);
+    if (!fillPDFGradient(pdf, obj, style.gradient, segments)) pdf.discardPath();
+  } else if (fill) {
+    pdf.setFillColor(...fill.rgb);
+    tracePDFPath(pdf, segments);
+    if (style.fillRule === 'evenodd') {
+      pdf.fillEvenOdd();
+    } else {
+      pdf.fill();
+    }
+  }
+
+  if (stroke) {
+    pdf.setDrawColor(...stroke.rgb);
+    pdf.setLineWidth(style.strokeWidth);
+    tracePDFPath(pdf, segments);
+    pdf.stroke();
+  }
+};
+
+// What the standard PDF fonts cannot encode is drawn ahead of time instead
+interface PDFRasters {
+  // PNG stand-ins for image sources, by source
+  images: Map<string, string>;
+  // PNGs of text objects with characters outside Latin-1, by object id, with
+  // the area they cover around the text's origin
+  texts: Map<string, { dataUrl: string; box: BoundingBox }>;
+}
+
+const NON_LATIN1_PATTERN = /[\u0100-\u{10FFFF}]/u;
+
+const drawPDFText = (pdf: jsPDF, obj: TextObject, rasters: PDFRasters, opacity: number) => {
+  const raster = rasters.texts.get(obj.id);
+  if (raster) {
+    setPDFOpacity(pdf, opacity, opacity);
+    pdf.addImage(raster.dataUrl, raster.box.x, raster.box.y, raster.box.width, raster.box.height);
+    return;
+  }
+
+  const { style } = obj;
+  // Text has no shading fill here; a gradient shows as its first colour
+  const fill = parsePDFColor(style.gradient ? style.gradient.stops[0]?.color || 'none' : style.fill);
+  const stroke = style.strokeWidth > 0 ? parsePDFColor(style.stroke) : null;
+  if (!fill && !stroke) return;
+
+  setPDFOpacity(pdf, opacity * style.fillOpacity * (fill?.alpha ?? 1), opacity * style.strokeOpacity * (stroke?.alpha ?? 1));
+  const font = getPDFFont(obj);
+  pdf.setFont(font.name, font.style);
+  // Font sizes are taken in points even when drawing in pixels
+  pdf.setFontSize(obj.fontSize * pdf.internal.scaleFactor);
+  if (fill) pdf.setTextColor(...fill.rgb);
+  if (stroke) {
+    pdf.setDrawColor(...stroke.rgb);
+    pdf.setLineWidth(style.strokeWidth);
+  }
+
+  // Matches the SVG export, which centres the first line on y = 0. The
+  // baseline goes a little below the middle of the em box; jsPDF's own
+  // 'middle' baseline misplaces it under a user transformation matrix.
+  pdf.text(obj.content, 0, obj.fontSize * 0.35, {
+    renderingMode: fill && stroke ? 'fillThenStroke' : stroke ? 'stroke' : 'fill'
+  });
+};
+
+const drawPDFObject = (pdf: jsPDF, obj: CanvasObject, rasters: PDFRasters, parentOpacity: number) => {
+  const matrix = transformToMatrix(obj.transform);
+  const opacity = parentOpacity * obj.style.opacity;
+
+  pdf.saveGraphicsState();
+  pdf.setCurrentTransformationMatrix(pdf.Matrix(matrix.a, matrix.b, matrix.c, matrix.d, matrix.e, matrix.f));
+
+  switch (obj.type) {
+    case 'group':
+      obj.children
+        .filter(child => child.visible)
+        .forEach(child => drawPDFObject(pdf, child, rasters, opacity));
+      break;
+
+    case 'image':
+      setPDFOpacity(pdf, opacity, opacity);
+      pdf.addImage(rasters.images.get(obj.src) || obj.src, 0, 0, obj.width, obj.height);
+      break;
+
+    case 'text':
+      drawPDFText(pdf, obj, rasters, opacity);
+      break;
+
+    case 'line':
+      drawPDFShape(pdf, obj, polylineToSegments([{ x: obj.x1, y: obj.y1 }, { x: obj.x2, y: obj.y2 }]), opacity);
+      break;
+
+    default: {
+      const segments = getObjectSegments(obj);
+      if (segments) drawPDFShape(pdf, obj, segments, opacity);
+    }
+  }
+
+  pdf.restoreGraphicsState();
+};
+
+// PDF can embed PNG, JPEG, GIF, BMP and WebP images directly. SVG images are
+// drawn to PNG first, at twice their size so they stay sharp when zoomed.
+// Text the standard fonts cannot encode, such as CJK, arrows or emoji, is
+// drawn to PNG the same way; it can no longer be selected in the PDF.
+const preparePDFRasters = async (layers: Layer[]): Promise<PDFRasters> => {
+  const images = new Map<string, string>();
+  const texts = new Map<string, { dataUrl: string; box: BoundingBox }>();
+  const objects = layers.flatMap(layer => flattenObjects(layer.objects));
+  const svgImages = objects
+    .filter((obj): obj is ImageObject => obj.type === 'image' && obj.src.startsWith('data:image/svg+xml'));
+
+  for (const image of svgImages) {
+    if (images.has(image.src)) continue;
+    const asset = dataUrlToAsset(image.src);
+    if (!asset) continue;
+    const svgString = new TextDecoder().decode(asset.bytes);
+    const width = Math.max(1, Math.round(image.width * 2));
+    const height = Math.max(1, Math.round(image.height * 2));
+    images.set(image.src, await rasterizeSVG(svgString, width, height, 'image/png'));
+  }
+
+  const nonLatinTexts = objects
+    .filter((obj): obj is TextObject => obj.type === 'text' && NON_LATIN1_PATTERN.test(obj.content));
+
+  for (const text of nonLatinTexts) {
+    // Drawn untransformed and fully opaque; the PDF applies both. The box
+    // is padded for the stroke and for glyphs reaching past the measured
+    // line, such as descenders and emoji.
+    const local: TextObject = {
+      ...text,
+      transform: { x: 0, y: 0, rotation: 0, scaleX: 1, scaleY: 1 },
+      style: { ...text.style, opacity: 1 }
+    };
+    const bounds = getBoundingBox(local);
+    const padding = text.style.strokeWidth + text.fontSize / 4;
+    const box = {
+      x: bounds.x - padding,
+      y: bounds.y - padding,
+      width: bounds.width + padding * 2,
+      height: bounds.height + padding * 2
+    };
+    const layer: Layer = { id: text.id, name: text.id, visible: true, locked: false, objects: [local] };
+    const width = Math.max(1, Math.round(box.width * 2));
+    const height = Math.max(1, Math.round(box.height * 2));
+    texts.set(text.id, { dataUrl: await rasterizeSVG(generateSVG([layer], box), width, height, 'image/png'), box });
+  }
+  return { images, texts };
+};
+
+// Draws each page with PDF vector operators, so shapes stay sharp at any
+// zoom and text can be selected and searched
+const exportPDF = async (layers: Layer[], pages: PDFPage[]): Promise<string> => {
+  const getOrientation = (page: PDFPage) => page.width > page.height ? 'landscape' : 'portrait';
   const pdf = new jsPDF({
-    orientation: width > height ? 'landscape' : 'portrait',
+    orientation: getOrientation(pages[0]),
     unit: 'px',
-    format: [width, height]
+    format: [pages[0].width, pages[0].height],
+    // Without it jsPDF 2 converts px at 96/72 rather than 72/96, and pages
+    // come out a third larger than their print size
+    hotfixes: ['px_scaling']
   });
 
-  const svgString = generateSVG(layers, canvasSize);
-  const canvas = document.createElement('canvas');
-  const ctx = canvas.getContext('2d')!;
-  canvas.width = width;
-  canvas.height = height;
+  const rasters = await preparePDFRasters(layers);
+  const visibleLayers = layers.filter(layer => layer.visible);
 
-  return new Promise((resolve) => {
-    const img = new Image();
-    const blob = new Blob([svgString], { type: 'image/svg+xml' });
-    const url = URL.createObjectURL(blob);
+  pages.forEach((page, index) => {
+    if (index > 0) pdf.addPage([page.width, page.height], getOrientation(page));
 
-    img.onload = () => {
-      ctx.drawImage(img, 0, 0, width, height);
-      const imgData = canvas.toDataURL('image/png');
-      
-      pdf.addImage(imgData, 'PNG', 0, 0, width, height);
-      const pdfBlob = pdf.output('blob');
-      const pdfUrl = URL.createObjectURL(pdfBlob);
-      
-      URL.revokeObjectURL(url);
-      resolve(pdfUrl);
-    };
+    pdf.advancedAPI(() => {
+      // Map the artboard onto the page
+      pdf.setCurrentTransformationMatrix(pdf.Matrix(
+        page.width / page.area.width, 0, 0, page.height / page.area.height,
+        -page.area.x * page.width / page.area.width, -page.area.y * page.height / page.area.height
+      ));
+      // SVG's default, where PDF's is 10
+      pdf.setLineMiterLimit(4);
 
-    img.src = url;
+      visibleLayers.forEach(layer => {
+        layer.objects
+          .filter(obj => obj.visible)
+          .forEach(obj => drawPDFObject(pdf, obj, rasters, 1));
+      });
+    });
   });
+
+  const pdfBlob = pdf.output('blob');
+  return URL.createObjectURL(pdfBlob);
 };
 
-const exportAI = (layers: Layer[], canvasSize: { width: number; height: number }): string => {
+const exportAI = (layers: Layer[], area: BoundingBox): string => {
   const aiData = {
     version: '1.0',
     application: 'Graphite Editor Clone',
     created: new Date().toISOString(),
-    canvasSize,
+    canvasSize: { width: area.width, height: area.height },
     layers: layers.map(layer => ({
       ...layer,
       objects: layer.objects.map(obj => ({
@@ -233,7 +598,7 @@ const exportAI = (layers: Layer[], canvasSize: { width: number; height: number }
         }
       }))
     })),
-    svg: generateSVG(layers, canvasSize)
+    svg: generateSVG(layers, area)
   };
 
   const blob = new Blob([JSON.stringify(aiData, null, 2)], { type: 'application/json' });
@@ -292,6 +657,19 @@ export const loadImageAsObject = (file: File): Promise<CanvasObject> => {
   });
 };
 
+const CONTAINER_TAGS = ['g', 'a', 'switch'];
+
+const PRESENTATION_ATTRIBUTES = [
+  'fill', 'stroke', 'stroke-width', 'opacity', 'fill-opacity', 'stroke-opacity', 'fill-rule',
+  'font-size', 'font-family', 'font-weight', 'display', 'visibility', 'color',
+  'stop-color', 'stop-opacity'
+];
+
+const INHERITED_PROPERTIES = [
+  'fill', 'stroke', 'stroke-width', 'fill-opacity', 'stroke-opacity', 'fill-rule',
+  'font-size', 'font-family', 'font-weight', 'visibility', 'color'
+];
+
 export const parseSVGFile = (svgContent: string): CanvasObject[] => {
   const parser = new DOMParser();
   const svgDoc = parser.parseFromString(svgContent, 'image/svg+xml');
@@ -300,108 +678,497 @@ export const parseSVGFile = (svgContent: string): CanvasObject[] => {
   if (!svgElement) return [];
   
   const objects: CanvasObject[] = [];
-  const elements = svgElement.querySelectorAll('rect, circle, line, text, path, image');
-  
-  elements.forEach((element, index) => {
-    const obj = svgElementToObject(element, `svg-${Date.now()}-${index}`);
-    if (obj) objects.push(obj);
-  });
+  const idPrefix = `svg-${Date.now()}`;
+  const cssRules = Array.from(svgDoc.querySelectorAll('style'))
+    .flatMap((styleElement, index) => parseStyleSheet(styleElement.textContent || '', index * 10000));
+
+  // Depth-first walk so each element sees the composed transform and the
+  // inherited styles of every ancestor, starting from the root viewport.
+  // `references` holds the <use> targets being expanded, to break cycles.
+  const visit = (element: Element, parentMatrix: Matrix, parentStyles: StyleDeclarations, references: string[]) => {
+    const tag = element.localName;
+    const matrix = multiplyMatrices(parentMatrix, parseTransform(element.getAttribute('transform') || ''));
+    const styles = resolveStyles(element, cssRules, parentStyles);
+
+    if (styles.display === 'none') return;
+
+    if (tag === 'svg') {
+      const origin = translationMatrix(parseLength(element.getAttribute('x')), parseLength(element.getAttribute('y')));
+      walkChildren(element, multiplyMatrices(multiplyMatrices(parentMatrix, origin), getViewportMatrix(element)), styles, references);
+    } else if (CONTAINER_TAGS.includes(tag)) {
+      walkChildren(element, matrix, styles, references);
+    } else if (tag === 'use') {
+      const targetId = getHref(element).replace(/^#/, '');
+      const target = targetId ? svgDoc.getElementById(targetId) : null;
+      if (!target || references.includes(targetId)) return;
+
+      const useMatrix = multiplyMatrices(matrix, translationMatrix(
+        parseLength(element.getAttribute('x')),
+        parseLength(element.getAttribute('y'))
+      ));
+      if (target.localName === 'symbol') {
+        const viewport = getViewportMatrix(
+          target,
+          element.getAttribute('width') || target.getAttribute('width'),
+          element.getAttribute('height') || target.getAttribute('height')
+        );
+        walkChildren(target, multiplyMatrices(useMatrix, viewport), styles, [...references, targetId]);
+      } else {
+        visit(target, useMatrix, styles, [...references, targetId]);
+      }
+    } else {
+      const obj = svgElementToObject(element, `${idPrefix}-${objects.length}`, matrix, styles);
+      if (obj) objects.push(applyPaintServers(obj, styles, matrix, id => resolveGradient(svgDoc, id, cssRules)));
+    }
+  };
+
+  const walkChildren = (parent: Element, matrix: Matrix, styles: StyleDeclarations, references: string[]) => {
+    Array.from(parent.children).forEach(child => visit(child, matrix, styles, references));
+  };
+
+  walkChildren(svgElement, getViewportMatrix(svgElement), resolveStyles(svgElement, cssRules, {}), []);
   
   return objects;
 };
 
-const svgElementToObject = (element: Element, id: string): CanvasObject | null => {
-  const getAttr = (name: string, defaultValue: any = 0) => {
+const PAINT_SERVER_PATTERN = /^url\(\s*['"]?#([^'")\s]+)['"]?\s*\)\s*(.*)$/;
+
+// Fill gradients map onto style.gradient. userSpaceOnUse coordinates live in
+// the element's user space, so they are re-expressed in the object's local
+// space through gradientTransform. Strokes cannot hold a gradient and take its
+// first stop color instead.
+const applyPaintServers = (
+  obj: CanvasObject,
+  styles: StyleDeclarations,
+  matrix: Matrix,
+  findGradient: (id: string) => Gradient | null
+): CanvasObject => {
+  const style = { ...obj.style };
+
+  const fillServer = (styles.fill || '').match(PAINT_SERVER_PATTERN);
+  const fillGradient = fillServer ? findGradient(fillServer[1]) : null;
+  if (fillGradient) {
+    style.fill = fillGradient.stops[0].color;
+    style.gradient = fillGradient.gradientUnits === 'userSpaceOnUse'
+      ? {
+          ...fillGradient,
+          gradientTransform: multiplyMatrices(
+            multiplyMatrices(invertMatrix(transformToMatrix(obj.transform)), matrix),
+            fillGradient.gradientTransform || identityMatrix()
+          )
+        }
+      : fillGradient;
+  }
+
+  const strokeServer = (styles.stroke || '').match(PAINT_SERVER_PATTERN);
+  const strokeGradient = strokeServer ? findGradient(strokeServer[1]) : null;
+  if (strokeGradient) {
+    style.stroke = strokeGradient.stops[0].color;
+  }
+
+  return { ...obj, style };
+};
+
+// Resolves a <linearGradient>/<radialGradient>, following its href chain for
+// any attributes or stops it does not define itself
+const resolveGradient = (svgDoc: Document, id: string, cssRules: CssRule[]): Gradient | null => {
+  const chain: Element[] = [];
+  let current = svgDoc.getElementById(id);
+  while (current && ['linearGradient', 'radialGradient'].includes(current.localName) && !chain.includes(current)) {
+    chain.push(current);
+    const href = getHref(current).replace(/^#/, '');
+    current = href ? svgDoc.getElementById(href) : null;
+  }
+  if (chain.length === 0) return null;
+
+  const getAttr = (name: string) => chain.find(el => el.hasAttribute(name))?.getAttribute(name) ?? null;
+  const getCoordinate = (name: string, defaultValue: number) => {
+    const value = getAttr(name);
+    const number = value === null ? NaN : parseFloat(value);
+    if (isNaN(number)) return defaultValue;
+    return value!.trim().endsWith('%') ? number / 100 : number;
+  };
+
+  const stopOwner = chain.find(el => Array.from(el.children).some(child => child.localName === 'stop'));
+  let lastOffset = 0;
+  const stops = Array.from(stopOwner?.children || [])
+    .filter(child => child.localName === 'stop')
+    .map(stop => {
+      const styles = resolveStyles(stop, cssRules, {});
+      const offsetAttr = stop.getAttribute('offset') || '0';
+      const offset = parseFloat(offsetAttr) / (offsetAttr.trim().endsWith('%') ? 100 : 1);
+      // Offsets are clamped to [0, 1] and may never decrease
+      lastOffset = Math.max(lastOffset, Math.min(1, isNaN(offset) ? 0 : offset));
+      const color = styles['stop-color'] || '#000000';
+      const opacity = parseFloat(styles['stop-opacity']);
+      return {
+        offset: lastOffset,
+        color: color === 'currentColor' ? styles.color || '#000000' : color,
+        opacity: isNaN(opacity) ? 1 : opacity
+      };
+    });
+  if (stops.length === 0) return null;
+
+  const gradient: Gradient = {
+    type: chain[0].localName === 'linearGradient' ? 'linear' : 'radial',
+    stops
+  };
+
+  if (gradient.type === 'linear') {
+    const vector = {
+      x1: getCoordinate('x1', 0),
+      y1: getCoordinate('y1', 0),
+      x2: getCoordinate('x2', 1),
+      y2: getCoordinate('y2', 0)
+    };
+    gradient.linearVector = vector;
+    // Closest equivalent of the vector for the angle control in the properties panel
+    const angle = Math.atan2(-(vector.x2 - vector.x1), vector.y2 - vector.y1) * 180 / Math.PI;
+    gradient.angle = Math.round((angle + 360) % 360);
+  } else {
+    const cx = getCoordinate('cx', 0.5);
+    const cy = getCoordinate('cy', 0.5);
+    gradient.radialShape = {
+      cx,
+      cy,
+      r: getCoordinate('r', 0.5),
+      fx: getCoordinate('fx', cx),
+      fy: getCoordinate('fy', cy)
+    };
+  }
+
+  if (getAttr('gradientUnits') === 'userSpaceOnUse') {
+    gradient.gradientUnits = 'userSpaceOnUse';
+  }
+  const transformAttr = getAttr('gradientTransform');
+  if (transformAttr) {
+    gradient.gradientTransform = parseTransform(transformAttr);
+  }
+
+  return gradient;
+};
+
+const getHref = (element: Element): string => {
+  return element.getAttribute('href') || element.getAttributeNS('http://www.w3.org/1999/xlink', 'href') || '';
+};
+
+// Cascade order: presentation attributes, then <style> rules, then the inline
+// style attribute. Group opacity is folded into the children's opacity, which
+// is exact for non-overlapping children and close enough otherwise.
+const resolveStyles = (element: Element, cssRules: CssRule[], parentStyles: StyleDeclarations): StyleDeclarations => {
+  const own: StyleDeclarations = {};
+  PRESENTATION_ATTRIBUTES.forEach(name => {
     const value = element.getAttribute(name);
-    return value ? (isNaN(Number(value)) ? value : Number(value)) : defaultValue;
+    if (value !== null) own[name] = value.trim();
+  });
+  Object.assign(own, getMatchedDeclarations(element, cssRules), parseDeclarations(element.getAttribute('style') || ''));
+
+  const styles: StyleDeclarations = {};
+  INHERITED_PROPERTIES.forEach(name => {
+    if (parentStyles[name] !== undefined) styles[name] = parentStyles[name];
+  });
+  Object.entries(own).forEach(([name, value]) => {
+    if (value !== 'inherit') {
+      styles[name] = value;
+    } else if (parentStyles[name] !== undefined) {
+      styles[name] = parentStyles[name];
+    }
+  });
+
+  const parentOpacity = parseFloat(parentStyles.opacity ?? '1');
+  const ownOpacity = parseFloat(own.opacity ?? '1');
+  styles.opacity = String((isNaN(parentOpacity) ? 1 : parentOpacity) * (isNaN(ownOpacity) ? 1 : ownOpacity));
+
+  return styles;
+};
+
+const parseLength = (value: string | null, fallback: number = 0): number => {
+  if (!value || value.trim().endsWith('%')) return fallback;
+  const number = parseFloat(value);
+  return isNaN(number) ? fallback : number;
+};
+
+// Maps the element's viewBox onto its width/height per preserveAspectRatio;
+// <use> passes its own size in for the <symbol> it instantiates
+const getViewportMatrix = (
+  element: Element,
+  widthAttr: string | null = element.getAttribute('width'),
+  heightAttr: string | null = element.getAttribute('height')
+): Matrix => {
+  const viewBox = (element.getAttribute('viewBox') || '').trim().split(/[\s,]+/).map(Number);
+  if (viewBox.length !== 4 || viewBox.some(isNaN) || viewBox[2] <= 0 || viewBox[3] <= 0) {
+    return identityMatrix();
+  }
+
+  const [minX, minY, vbWidth, vbHeight] = viewBox;
+  const width = parseLength(widthAttr, vbWidth);
+  const height = parseLength(heightAttr, vbHeight);
+
+  const [align = 'xMidYMid', meetOrSlice = 'meet'] = (element.getAttribute('preserveAspectRatio') || '')
+    .replace('defer', '')
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean);
+
+  let scaleX = width / vbWidth;
+  let scaleY = height / vbHeight;
+  let offsetX = 0;
+  let offsetY = 0;
+
+  if (align !== 'none') {
+    const scale = meetOrSlice === 'slice' ? Math.max(scaleX, scaleY) : Math.min(scaleX, scaleY);
+    scaleX = scale;
+    scaleY = scale;
+
+    const extraX = width - vbWidth * scale;
+    const extraY = height - vbHeight * scale;
+    if (align.includes('xMid')) offsetX = extraX / 2;
+    if (align.includes('xMax')) offsetX = extraX;
+    if (align.includes('YMid')) offsetY = extraY / 2;
+    if (align.includes('YMax')) offsetY = extraY;
+  }
+
+  return multiplyMatrices(
+    translationMatrix(offsetX - minX * scaleX, offsetY - minY * scaleY),
+    scaleMatrix(scaleX, scaleY)
+  );
+};
+
+const svgElementToObject = (element: Element, id: string, matrix: Matrix, styles: StyleDeclarations): CanvasObject | null => {
+  const getNumber = (name: string, defaultValue: number = 0) => parseLength(element.getAttribute(name), defaultValue);
+  const getStyleNumber = (name: string, defaultValue: number) => {
+    const value = parseFloat(styles[name]);
+    return isNaN(value) ? defaultValue : value;
+  };
+  const getColor = (name: string, defaultValue: string) => {
+    let value = styles[name] || defaultValue;
+    // Paint servers are attached afterwards; keep the fallback color for now
+    const paintServer = value.match(PAINT_SERVER_PATTERN);
+    if (paintServer) value = paintServer[2] || defaultValue;
+    return value === 'currentColor' ? styles.color || '#000000' : value;
   };
 
-  const transform = parseTransform(element.getAttribute('transform') || '');
   const style = {
-    fill: getAttr('fill', '#000000'),
-    stroke: getAttr('stroke', 'none'),
-    strokeWidth: getAttr('stroke-width', 0),
-    opacity: getAttr('opacity', 1),
-    fillOpacity: getAttr('fill-opacity', 1),
-    strokeOpacity: getAttr('stroke-opacity', 1),
-    gradient: null
+    fill: getColor('fill', '#000000'),
+    stroke: getColor('stroke', 'none'),
+    strokeWidth: getStyleNumber('stroke-width', 1),
+    opacity: getStyleNumber('opacity', 1),
+    fillOpacity: getStyleNumber('fill-opacity', 1),
+    strokeOpacity: getStyleNumber('stroke-opacity', 1),
+    gradient: null,
+    fillRule: (styles['fill-rule'] === 'evenodd' ? 'evenodd' : 'nonzero') as FillRule
   };
 
   const baseObject = {
     id,
-    transform,
+    transform: matrixToTransform(matrix, true)!,
     style,
-    visible: true,
+    visible: styles.visibility !== 'hidden' && styles.visibility !== 'collapse',
     locked: false,
     selected: false
   };
 
-  switch (element.tagName.toLowerCase()) {
-    case 'rect':
+  // Geometry with the matrix baked in has an identity transform, so the
+  // stroke takes the matrix's average scale instead
+  const bakedObject = {
+    ...baseObject,
+    transform: { x: 0, y: 0, rotation: 0, scaleX: 1, scaleY: 1 },
+    style: { ...style, strokeWidth: style.strokeWidth * Math.sqrt(Math.abs(matrix.a * matrix.d - matrix.b * matrix.c)) }
+  };
+
+  // Skewed shapes cannot be described by Transform, so bake the matrix into
+  // an equivalent path instead
+  const toPathObject = (segments: PathSegment[]): CanvasObject => ({
+    ...bakedObject,
+    type: 'path',
+    segments: transformSegments(segments, matrix)
+  });
+
+  switch (element.localName) {
+    case 'rect': {
+      const x = getNumber('x');
+      const y = getNumber('y');
+      const width = getNumber('width');
+      const height = getNumber('height');
+      const rx = getNumber('rx', getNumber('ry'));
+      const ry = getNumber('ry', rx);
+      if (width <= 0 || height <= 0) return null;
+
+      const transform = matrixToTransform(multiplyMatrices(matrix, translationMatrix(x, y)));
+      if (!transform) return toPathObject(rectToSegments(x, y, width, height, rx, ry));
       return {
         ...baseObject,
+        transform,
         type: 'rect',
-        width: getAttr('width', 100),
-        height: getAttr('height', 100),
-        rx: getAttr('rx'),
-        ry: getAttr('ry')
+        width,
+        height,
+        rx,
+        ry
       } as CanvasObject;
+    }
     
-    case 'circle':
+    case 'circle': {
+      const cx = getNumber('cx');
+      const cy = getNumber('cy');
+      const radius = getNumber('r');
+      if (radius <= 0) return null;
+
+      const transform = matrixToTransform(multiplyMatrices(matrix, translationMatrix(cx, cy)));
+      if (!transform) return toPathObject(ellipseToSegments(cx, cy, radius));
       return {
         ...baseObject,
+        transform,
         type: 'circle',
-        radius: getAttr('r', 50)
+        radius
       } as CanvasObject;
+    }
     
-    case 'line':
+    case 'ellipse': {
+      const cx = getNumber('cx');
+      const cy = getNumber('cy');
+      const rx = getNumber('rx', getNumber('ry'));
+      const ry = getNumber('ry', rx);
+      if (rx <= 0 || ry <= 0) return null;
+
+      // Circles with uneven scale are how the canvas represents ellipses
+      const transform = matrixToTransform(multiplyMatrices(
+        multiplyMatrices(matrix, translationMatrix(cx, cy)),
+        scaleMatrix(1, ry / rx)
+      ));
+      if (!transform) return toPathObject(ellipseToSegments(cx, cy, rx, ry));
       return {
         ...baseObject,
+        transform,
+        type: 'circle',
+        radius: rx
+      } as CanvasObject;
+    }
+    
+    case 'line': {
+      const start = applyMatrix({ x: getNumber('x1'), y: getNumber('y1') }, matrix);
+      const end = applyMatrix({ x: getNumber('x2'), y: getNumber('y2') }, matrix);
+      return {
+        ...bakedObject,
         type: 'line',
-        x1: getAttr('x1'),
-        y1: getAttr('y1'),
-        x2: getAttr('x2'),
-        y2: getAttr('y2')
+        x1: start.x,
+        y1: start.y,
+        x2: end.x,
+        y2: end.y
       } as CanvasObject;
+    }
     
     case 'text':
       return {
         ...baseObject,
+        transform: matrixToTransform(multiplyMatrices(matrix, translationMatrix(getNumber('x'), getNumber('y'))), true)!,
         type: 'text',
         content: element.textContent || 'Text',
-        fontSize: getAttr('font-size', 16),
-        fontFamily: getAttr('font-family', 'Arial'),
-        fontWeight: getAttr('font-weight', 'normal')
+        fontSize: getStyleNumber('font-size', 16),
+        fontFamily: (styles['font-family'] || 'Arial').split(',')[0].replace(/["']/g, '').trim(),
+        fontWeight: styles['font-weight'] || 'normal'
+      } as CanvasObject;
+    
+    case 'path': {
+      const segments = parsePathData(element.getAttribute('d') || '');
+      if (segments.length === 0) return null;
+
+      const transform = matrixToTransform(matrix);
+      if (!transform) return toPathObject(segments);
+      return {
+        ...baseObject,
+        transform,
+        type: 'path',
+        segments
+      } as CanvasObject;
+    }
+    
+    case 'polygon':
+    case 'polyline': {
+      const values = (element.getAttribute('points') || '').trim().split(/[\s,]+/).filter(Boolean).map(Number);
+      const points: Point[] = [];
+      for (let i = 0; i + 1 < values.length && !isNaN(values[i]) && !isNaN(values[i + 1]); i += 2) {
+        points.push({ x: values[i], y: values[i + 1] });
+      }
+      if (points.length < 2) return null;
+
+      const segments = polylineToSegments(points, element.localName === 'polygon');
+      const transform = matrixToTransform(matrix);
+      if (!transform) return toPathObject(segments);
+      return {
+        ...baseObject,
+        transform,
+        type: 'path',
+        segments
       } as CanvasObject;
+    }
+    
+    case 'image': {
+      const src = getHref(element);
+      const width = getNumber('width');
+      const height = getNumber('height');
+      if (!src || width <= 0 || height <= 0) return null;
+
+      return {
+        ...baseObject,
+        transform: matrixToTransform(multiplyMatrices(matrix, translationMatrix(getNumber('x'), getNumber('y'))), true)!,
+        style: { ...style, fill: 'none', stroke: 'none', strokeWidth: 0 },
+        type: 'image',
+        src,
+        width,
+        height,
+        originalWidth: width,
+        originalHeight: height
+      } as CanvasObject;
+    }
     
     default:
       return null;
   }
 };
 
-const parseTransform = (transformStr: string) => {
-  const transform = { x: 0, y: 0, rotation: 0, scaleX: 1, scaleY: 1 };
-  
-  if (!transformStr) return transform;
+const TRANSFORM_PATTERN = /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g;
+
+// Composes a full SVG transform list, left to right, into a single matrix
+const parseTransform = (transformStr: string): Matrix => {
+  let matrix = identityMatrix();
   
-  const translateMatch = transformStr.match(/translate\(([^)]+)\)/);
-  if (translateMatch) {
-    const values = translateMatch[1].split(/[,\s]+/).map(Number);
-    transform.x = values[0] || 0;
-    transform.y = values[1] || 0;
-  }
+  if (!transformStr) return matrix;
   
-  const rotateMatch = transformStr.match(/rotate\(([^)]+)\)/);
-  if (rotateMatch) {
-    transform.rotation = (Number(rotateMatch[1]) || 0) * Math.PI / 180;
-  }
-  
-  const scaleMatch = transformStr.match(/scale\(([^)]+)\)/);
-  if (scaleMatch) {
-    const values = scaleMatch[1].split(/[,\s]+/).map(Number);
-    transform.scaleX = values[0] || 1;
-    transform.scaleY = values[1] || values[0] || 1;
+  for (const [, name, args] of transformStr.matchAll(TRANSFORM_PATTERN)) {
+    const values = args.trim().split(/[\s,]+/).filter(Boolean).map(Number);
+    let next = identityMatrix();
+
+    switch (name) {
+      case 'matrix':
+        if (values.length === 6) {
+          const [a, b, c, d, e, f] = values;
+          next = { a, b, c, d, e, f };
+        }
+        break;
+      case 'translate':
+        next = translationMatrix(values[0] || 0, values[1] || 0);
+        break;
+      case 'scale':
+        next = scaleMatrix(values[0] ?? 1, values[1] ?? values[0] ?? 1);
+        break;
+      case 'rotate': {
+        const [angle = 0, cx = 0, cy = 0] = values;
+        next = multiplyMatrices(
+          multiplyMatrices(translationMatrix(cx, cy), rotationMatrix(angle * Math.PI / 180)),
+          translationMatrix(-cx, -cy)
+        );
+        break;
+      }
+      case 'skewX':
+        next = { a: 1, b: 0, c: Math.tan((values[0] || 0) * Math.PI / 180), d: 1, e: 0, f: 0 };
+        break;
+      case 'skewY':
+        next = { a: 1, b: Math.tan((values[0] || 0) * Math.PI / 180), c: 0, d: 1, e: 0, f: 0 };
+        break;
+    }
+
+    matrix = multiplyMatrices(matrix, next);
   }
   
-  return transform;
-};
\ No newline at end of file
+  return matrix;
+};
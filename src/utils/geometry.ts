@@ -1,78 +1,104 @@
-import { Point, BoundingBox, CanvasObject } from '../types';
+import { Point, BoundingBox, BooleanOperation, CanvasObject, FillRule, ImageObject, Matrix, PathSegment, TextObject, Transform } from '../types';
+import {
+  ellipseToSegments,
+  flattenSegments,
+  flattenSubpaths,
+  getSegmentsBounds,
+  rectToSegments,
+  smoothCurveToSegments,
+  transformSegments
+} from './path';
 
 export const distance = (p1: Point, p2: Point): number => {
   return Math.sqrt(Math.pow(p2.x - p1.x, 2) + Math.pow(p2.y - p1.y, 2));
 };
 
-export const getBoundingBox = (obj: CanvasObject): BoundingBox => {
-  const { transform } = obj;
-  
+let measureContext: CanvasRenderingContext2D | null | undefined;
+
+// Measures with a 2D canvas where one is available, falling back to an
+// average glyph width of 0.6em elsewhere
+const measureTextWidth = (text: string, font: string, fontSize: number): number => {
+  if (measureContext === undefined) {
+    try {
+      measureContext = typeof document !== 'undefined' ? document.createElement('canvas').getContext('2d') : null;
+    } catch {
+      measureContext = null;
+    }
+  }
+  if (!measureContext) return text.length * fontSize * 0.6;
+
+  measureContext.font = font;
+  return measureContext.measureText(text).width;
+};
+
+// Untransformed box of text and images. Text is drawn with a central
+// baseline, so its em box is centered vertically on the origin.
+const getLocalBounds = (obj: TextObject | ImageObject): BoundingBox => {
+  if (obj.type === 'image') {
+    return { x: 0, y: 0, width: obj.width, height: obj.height };
+  }
+  const fontSize = obj.fontSize || 16;
+  const font = `${obj.fontWeight || 'normal'} ${fontSize}px ${obj.fontFamily || 'Arial'}`;
+  return {
+    x: 0,
+    y: -fontSize / 2,
+    width: measureTextWidth(obj.content || '', font, fontSize),
+    height: fontSize
+  };
+};
+
+const getBoxCorners = (box: BoundingBox): Point[] => [
+  { x: box.x, y: box.y },
+  { x: box.x + box.width, y: box.y },
+  { x: box.x + box.width, y: box.y + box.height },
+  { x: box.x, y: box.y + box.height }
+];
+
+// Axis-aligned bounds on the canvas under the object's full transform (and
+// that of any enclosing groups), following curves out to their extrema
+export const getBoundingBox = (obj: CanvasObject, parentMatrix: Matrix = identityMatrix()): BoundingBox => {
+  const matrix = multiplyMatrices(parentMatrix, transformToMatrix(obj.transform));
+
   switch (obj.type) {
-    case 'rect':
-      return {
-        x: transform.x,
-        y: transform.y,
-        width: obj.width * transform.scaleX,
-        height: obj.height * transform.scaleY
-      };
-    case 'circle':
-      const r = obj.radius * Math.max(transform.scaleX, transform.scaleY);
-      return {
-        x: transform.x - r,
-        y: transform.y - r,
-        width: r * 2,
-        height: r * 2
-      };
     case 'line':
-      const minX = Math.min(obj.x1, obj.x2);
-      const maxX = Math.max(obj.x1, obj.x2);
-      const minY = Math.min(obj.y1, obj.y2);
-      const maxY = Math.max(obj.y1, obj.y2);
-      return {
-        x: minX + transform.x,
-        y: minY + transform.y,
-        width: maxX - minX,
-        height: maxY - minY
-      };
-    case 'path':
-    case 'curve':
-      if (obj.points.length === 0) {
-        return { x: transform.x, y: transform.y, width: 0, height: 0 };
-      }
-      const xs = obj.points.map(p => p.x);
-      const ys = obj.points.map(p => p.y);
-      const minPX = Math.min(...xs);
-      const maxPX = Math.max(...xs);
-      const minPY = Math.min(...ys);
-      const maxPY = Math.max(...ys);
-      return {
-        x: minPX + transform.x,
-        y: minPY + transform.y,
-        width: maxPX - minPX,
-        height: maxPY - minPY
-      };
+      return getPointsBounds([
+        applyMatrix({ x: obj.x1, y: obj.y1 }, matrix),
+        applyMatrix({ x: obj.x2, y: obj.y2 }, matrix)
+      ]);
     case 'text':
-      // Approximate text bounding box
-      const textWidth = (obj.content?.length || 0) * (obj.fontSize || 16) * 0.6;
-      const textHeight = obj.fontSize || 16;
-      return {
-        x: transform.x,
-        y: transform.y - textHeight / 2,
-        width: textWidth,
-        height: textHeight
-      };
     case 'image':
-      return {
-        x: transform.x,
-        y: transform.y,
-        width: obj.width * transform.scaleX,
-        height: obj.height * transform.scaleY
-      };
-    default:
-      return { x: transform.x, y: transform.y, width: 100, height: 100 };
+      return getPointsBounds(getBoxCorners(getLocalBounds(obj)).map(p => applyMatrix(p, matrix)));
+    case 'group': {
+      const childBoxes = obj.children.filter(child => child.visible).map(child => getBoundingBox(child, matrix));
+      if (childBoxes.length === 0) {
+        return { x: matrix.e, y: matrix.f, width: 0, height: 0 };
+      }
+      return getPointsBounds(childBoxes.flatMap(getBoxCorners));
+    }
+    default: {
+      const segments = getObjectSegments(obj);
+      if (!segments || segments.length === 0) {
+        return { x: matrix.e, y: matrix.f, width: 0, height: 0 };
+      }
+      return getSegmentsBounds(transformSegments(segments, matrix));
+    }
   }
 };
 
+export const getPointsBounds = (points: Point[]): BoundingBox => {
+  if (points.length === 0) return { x: 0, y: 0, width: 0, height: 0 };
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  return {
+    x: minX,
+    y: minY,
+    width: Math.max(...xs) - minX,
+    height: Math.max(...ys) - minY
+  };
+};
+
 export const pointInBoundingBox = (point: Point, box: BoundingBox): boolean => {
   return point.x >= box.x && 
          point.x <= box.x + box.width && 
@@ -97,4 +123,365 @@ export const snapToGrid = (point: Point, gridSize: number = 10): Point => {
     x: Math.round(point.x / gridSize) * gridSize,
     y: Math.round(point.y / gridSize) * gridSize
   };
-};
\ No newline at end of file
+};
+export const identityMatrix = (): Matrix => ({ a: 1, b: 0, c: 0, d: 1, e: 0, f: 0 });
+
+// Returns m1 × m2, i.e. m2 is applied first
+export const multiplyMatrices = (m1: Matrix, m2: Matrix): Matrix => ({
+  a: m1.a * m2.a + m1.c * m2.b,
+  b: m1.b * m2.a + m1.d * m2.b,
+  c: m1.a * m2.c + m1.c * m2.d,
+  d: m1.b * m2.c + m1.d * m2.d,
+  e: m1.a * m2.e + m1.c * m2.f + m1.e,
+  f: m1.b * m2.e + m1.d * m2.f + m1.f
+});
+
+export const applyMatrix = (point: Point, m: Matrix): Point => ({
+  x: m.a * point.x + m.c * point.y + m.e,
+  y: m.b * point.x + m.d * point.y + m.f
+});
+
+export const invertMatrix = (m: Matrix): Matrix => {
+  const det = m.a * m.d - m.b * m.c;
+  if (det === 0) return identityMatrix();
+  return {
+    a: m.d / det,
+    b: -m.b / det,
+    c: -m.c / det,
+    d: m.a / det,
+    e: (m.c * m.f - m.d * m.e) / det,
+    f: (m.b * m.e - m.a * m.f) / det
+  };
+};
+
+export const translationMatrix = (tx: number, ty: number): Matrix => ({ a: 1, b: 0, c: 0, d: 1, e: tx, f: ty });
+
+export const scaleMatrix = (sx: number, sy: number = sx): Matrix => ({ a: sx, b: 0, c: 0, d: sy, e: 0, f: 0 });
+
+export const rotationMatrix = (angle: number): Matrix => {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return { a: cos, b: sin, c: -sin, d: cos, e: 0, f: 0 };
+};
+
+// Applies `m` about `origin` rather than about the coordinate origin
+export const matrixAroundPoint = (m: Matrix, origin: Point): Matrix => {
+  return multiplyMatrices(
+    translationMatrix(origin.x, origin.y),
+    multiplyMatrices(m, translationMatrix(-origin.x, -origin.y))
+  );
+};
+
+// Same order as the `translate rotate scale` attribute the canvas renders
+export const transformToMatrix = (transform: Transform): Matrix => {
+  return multiplyMatrices(
+    multiplyMatrices(translationMatrix(transform.x, transform.y), rotationMatrix(transform.rotation)),
+    scaleMatrix(transform.scaleX, transform.scaleY)
+  );
+};
+
+// Inverse of transformToMatrix. A skewed matrix cannot be expressed as
+// translate/rotate/scale, so it yields null unless `dropSkew` is set.
+export const matrixToTransform = (m: Matrix, dropSkew: boolean = false): Transform | null => {
+  const scaleX = Math.hypot(m.a, m.b);
+  if (scaleX === 0) return dropSkew ? { x: m.e, y: m.f, rotation: 0, scaleX: 1, scaleY: 1 } : null;
+
+  const skew = (m.a * m.c + m.b * m.d) / (scaleX * Math.hypot(m.c, m.d) || 1);
+  if (Math.abs(skew) > 1e-6 && !dropSkew) return null;
+
+  return {
+    x: m.e,
+    y: m.f,
+    rotation: Math.atan2(m.b, m.a),
+    scaleX,
+    scaleY: (m.a * m.d - m.b * m.c) / scaleX
+  };
+};
+
+// True when the matrix only rotates, translates and scales uniformly, so
+// circles stay circles (arcs can then be transformed without flattening)
+export const isSimilarityMatrix = (m: Matrix): boolean => {
+  return (Math.abs(m.a - m.d) < 1e-9 && Math.abs(m.b + m.c) < 1e-9) ||
+         (Math.abs(m.a + m.d) < 1e-9 && Math.abs(m.b - m.c) < 1e-9);
+};
+
+// --- Polygon booleans -------------------------------------------------------
+
+const cross = (o: Point, a: Point, b: Point): number => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+// Winding number of the (implicitly closed) contours around the point
+export const getWindingNumber = (point: Point, contours: Point[][]): number => {
+  let winding = 0;
+  contours.forEach(contour => {
+    contour.forEach((a, i) => {
+      const b = contour[(i + 1) % contour.length];
+      if (a.y <= point.y) {
+        if (b.y > point.y && cross(a, b, point) > 0) winding++;
+      } else if (b.y <= point.y && cross(a, b, point) < 0) {
+        winding--;
+      }
+    });
+  });
+  return winding;
+};
+
+export const pointInContours = (point: Point, contours: Point[][], fillRule: FillRule = 'nonzero'): boolean => {
+  const winding = getWindingNumber(point, contours);
+  return fillRule === 'evenodd' ? winding % 2 !== 0 : winding !== 0;
+};
+
+const BOOLEAN_EPSILON = 1e-9;
+// How far either side of an edge the result region is sampled
+const SIDE_OFFSET = 1e-4;
+
+const vertexKey = (p: Point): string => `${p.x.toFixed(6)},${p.y.toFixed(6)}`;
+
+// Where two edges cross, or where either one's endpoints lie on the other
+// when they overlap, as parameters along each edge
+const getEdgeIntersections = (
+  [a, b]: [Point, Point],
+  [c, d]: [Point, Point]
+): { t: number; u: number; point: Point }[] => {
+  const r = { x: b.x - a.x, y: b.y - a.y };
+  const s = { x: d.x - c.x, y: d.y - c.y };
+  const qp = { x: c.x - a.x, y: c.y - a.y };
+  const lengthR = Math.hypot(r.x, r.y);
+  const lengthS = Math.hypot(s.x, s.y);
+  const denom = r.x * s.y - r.y * s.x;
+
+  if (Math.abs(denom) > BOOLEAN_EPSILON * lengthR * lengthS) {
+    const t = (qp.x * s.y - qp.y * s.x) / denom;
+    const u = (qp.x * r.y - qp.y * r.x) / denom;
+    if (t < -BOOLEAN_EPSILON || t > 1 + BOOLEAN_EPSILON || u < -BOOLEAN_EPSILON || u > 1 + BOOLEAN_EPSILON) return [];
+
+    // Reuse existing vertices so both edges split at exactly the same point
+    const point =
+      t <= BOOLEAN_EPSILON ? a : t >= 1 - BOOLEAN_EPSILON ? b :
+      u <= BOOLEAN_EPSILON ? c : u >= 1 - BOOLEAN_EPSILON ? d :
+      { x: a.x + r.x * t, y: a.y + r.y * t };
+    return [{ t, u, point }];
+  }
+
+  // Parallel: only collinear overlaps matter
+  if (Math.abs(qp.x * r.y - qp.y * r.x) / lengthR > 1e-7) return [];
+
+  const along = (p: Point, origin: Point, dir: Point, length: number) =>
+    ((p.x - origin.x) * dir.x + (p.y - origin.y) * dir.y) / (length * length);
+  return [
+    { t: along(c, a, r, lengthR), u: 0, point: c },
+    { t: along(d, a, r, lengthR), u: 1, point: d },
+    { t: 0, u: along(a, c, s, lengthS), point: a },
+    { t: 1, u: along(b, c, s, lengthS), point: b }
+  ];
+};
+
+// Combines polygonal operands (each a set of contours, bottom-most first,
+// filled by their own rule). All edges are split where they meet; a piece is
+// kept when the result is filled on one side of it only, oriented so the fill
+// is on its left, and the pieces are then chained into nonzero contours.
+export const booleanContours = (
+  operands: Point[][][],
+  operation: BooleanOperation,
+  fillRules: FillRule[] = []
+): Point[][] => {
+  const isFilled = (point: Point): boolean => {
+    const inside = operands.map((contours, i) => pointInContours(point, contours, fillRules[i]));
+    switch (operation) {
+      case 'union':
+        return inside.some(Boolean);
+      case 'intersect':
+        return inside.every(Boolean);
+      case 'subtract':
+        return inside[0] && !inside.slice(1).some(Boolean);
+      case 'exclude':
+        return inside.filter(Boolean).length % 2 === 1;
+    }
+  };
+
+  const edges: [Point, Point][] = operands
+    .flatMap(contours => contours.flatMap(contour =>
+      contour.map((p, i): [Point, Point] => [p, contour[(i + 1) % contour.length]])
+    ))
+    .filter(([a, b]) => a.x !== b.x || a.y !== b.y);
+
+  const splits = edges.map(([a, b]) => [{ t: 0, point: a }, { t: 1, point: b }]);
+  const isInterior = (t: number) => t > BOOLEAN_EPSILON && t < 1 - BOOLEAN_EPSILON;
+  for (let i = 0; i < edges.length; i++) {
+    for (let j = i + 1; j < edges.length; j++) {
+      getEdgeIntersections(edges[i], edges[j]).forEach(({ t, u, point }) => {
+        if (isInterior(t)) splits[i].push({ t, point });
+        if (isInterior(u)) splits[j].push({ t: u, point });
+      });
+    }
+  }
+
+  // Split into pieces, dropping duplicates left by overlapping edges
+  const seen = new Set<string>();
+  const kept: [Point, Point][] = [];
+  splits.forEach(edgeSplits => {
+    const points = edgeSplits.sort((p, q) => p.t - q.t).map(split => split.point);
+    for (let k = 0; k < points.length - 1; k++) {
+      const from = points[k];
+      const to = points[k + 1];
+      const fromKey = vertexKey(from);
+      const toKey = vertexKey(to);
+      if (fromKey === toKey) continue;
+
+      const pieceKey = fromKey < toKey ? `${fromKey}|${toKey}` : `${toKey}|${fromKey}`;
+      if (seen.has(pieceKey)) continue;
+      seen.add(pieceKey);
+
+      const length = Math.hypot(to.x - from.x, to.y - from.y);
+      const normal = { x: -(to.y - from.y) / length * SIDE_OFFSET, y: (to.x - from.x) / length * SIDE_OFFSET };
+      const mid = { x: (from.x + to.x) / 2, y: (from.y + to.y) / 2 };
+      const leftFilled = isFilled({ x: mid.x + normal.x, y: mid.y + normal.y });
+      const rightFilled = isFilled({ x: mid.x - normal.x, y: mid.y - normal.y });
+
+      if (leftFilled !== rightFilled) {
+        kept.push(leftFilled ? [from, to] : [to, from]);
+      }
+    }
+  });
+
+  const outgoing = new Map<string, number[]>();
+  kept.forEach(([from], index) => {
+    const key = vertexKey(from);
+    outgoing.set(key, [...(outgoing.get(key) || []), index]);
+  });
+
+  const used = new Set<number>();
+  const contours: Point[][] = [];
+  kept.forEach((_, startIndex) => {
+    if (used.has(startIndex)) return;
+
+    const startKey = vertexKey(kept[startIndex][0]);
+    const contour: Point[] = [];
+    let index: number | undefined = startIndex;
+    while (index !== undefined && !used.has(index)) {
+      used.add(index);
+      contour.push(kept[index][0]);
+      const endKey = vertexKey(kept[index][1]);
+      if (endKey === startKey) {
+        contours.push(simplifyContour(contour));
+        return;
+      }
+      index = (outgoing.get(endKey) || []).find(candidate => !used.has(candidate));
+    }
+    // A chain that never closes is numerical debris; drop it
+  });
+
+  return contours.filter(contour => contour.length >= 3);
+};
+
+// Drops vertices that lie on the line between their neighbours
+const simplifyContour = (contour: Point[]): Point[] => {
+  return contour.filter((point, i) => {
+    const prev = contour[(i - 1 + contour.length) % contour.length];
+    const next = contour[(i + 1) % contour.length];
+    const length = Math.hypot(next.x - prev.x, next.y - prev.y);
+    return length === 0 || Math.abs(cross(prev, next, point)) / length > 1e-7;
+  });
+};
+
+// Outline of a fillable object in its local space; null for objects without
+// an area (lines, text, images, groups)
+export const getObjectSegments = (obj: CanvasObject): PathSegment[] | null => {
+  switch (obj.type) {
+    case 'rect':
+      return rectToSegments(0, 0, obj.width, obj.height, obj.rx || 0, obj.ry ?? obj.rx ?? 0);
+    case 'circle':
+      return ellipseToSegments(0, 0, obj.radius);
+    case 'path':
+      return obj.segments;
+    case 'curve':
+      return smoothCurveToSegments(obj.points);
+    default:
+      return null;
+  }
+};
+
+// Flattened outline in canvas coordinates, one contour per subpath
+export const getObjectOutline = (obj: CanvasObject): Point[][] | null => {
+  const segments = getObjectSegments(obj);
+  if (!segments) return null;
+
+  const matrix = transformToMatrix(obj.transform);
+  return flattenSegments(segments).map(contour => contour.map(p => applyMatrix(p, matrix)));
+};
+
+// Screen pixels of slack around strokes and thin shapes when picking
+const HIT_TOLERANCE = 4;
+
+const distanceToSegment = (p: Point, a: Point, b: Point): number => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared));
+  return distance(p, { x: a.x + dx * t, y: a.y + dy * t });
+};
+
+const distanceToPolyline = (p: Point, points: Point[], closed: boolean): number => {
+  if (points.length === 1) return distance(p, points[0]);
+  let min = Infinity;
+  const count = closed ? points.length : points.length - 1;
+  for (let i = 0; i < count; i++) {
+    min = Math.min(min, distanceToSegment(p, points[i], points[(i + 1) % points.length]));
+  }
+  return min;
+};
+
+// Whether a click at `point` lands on the object as drawn on a canvas shown
+// at `zoom`: inside its fill (honouring the fill rule, so holes let clicks
+// through) or on its stroke. Strokes render with non-scaling-stroke, so their
+// reach is in screen pixels and shrinks in canvas units as the zoom grows.
+export const hitTestObject = (
+  point: Point,
+  obj: CanvasObject,
+  zoom: number = 1,
+  parentMatrix: Matrix = identityMatrix()
+): boolean => {
+  if (!obj.visible) return false;
+
+  const matrix = multiplyMatrices(parentMatrix, transformToMatrix(obj.transform));
+  const hasStroke = obj.style.stroke !== 'none' && obj.style.strokeWidth > 0;
+  const reach = ((hasStroke ? obj.style.strokeWidth / 2 : 0) + HIT_TOLERANCE) / zoom;
+  const hasFill = obj.style.fill !== 'none' || !!obj.style.gradient;
+
+  switch (obj.type) {
+    case 'line': {
+      const start = applyMatrix({ x: obj.x1, y: obj.y1 }, matrix);
+      const end = applyMatrix({ x: obj.x2, y: obj.y2 }, matrix);
+      return distanceToSegment(point, start, end) <= reach;
+    }
+    case 'text':
+    case 'image': {
+      // Text and images are picked anywhere on their box
+      const contour = getBoxCorners(getLocalBounds(obj)).map(p => applyMatrix(p, matrix));
+      return pointInContours(point, [contour]) || distanceToPolyline(point, contour, true) <= HIT_TOLERANCE / zoom;
+    }
+    case 'group': {
+      return obj.children.some(child => hitTestObject(point, child, zoom, matrix));
+    }
+    default: {
+      const segments = getObjectSegments(obj);
+      if (!segments) return false;
+
+      const subpaths = flattenSubpaths(segments).map(({ points, closed }) => ({
+        points: points.map(p => applyMatrix(p, matrix)),
+        closed
+      }));
+      if (hasFill && pointInContours(point, subpaths.map(subpath => subpath.points), obj.style.fillRule)) {
+        return true;
+      }
+      return subpaths.some(({ points, closed }) => distanceToPolyline(point, points, closed) <= reach);
+    }
+  }
+};
+
+// The topmost visible object under the point; later objects draw on top
+export const findObjectAt = (point: Point, objects: CanvasObject[], zoom: number = 1): CanvasObject | undefined => {
+  for (let i = objects.length - 1; i >= 0; i--) {
+    if (hitTestObject(point, objects[i], zoom)) return objects[i];
+  }
+  return undefined;
+};
@@ -0,0 +1,171 @@
+import { CanvasState, HistoryEntry, HistoryState, Patch } from '../types';
+
+// Undo and redo together may hold about this much before the oldest steps go
+export const MAX_HISTORY_BYTES = 32 * 1024 * 1024;
+
+// Changes sharing a coalesce key merge when this close together, so a
+// slider scrub or a run of keystrokes undoes in one step
+export const COALESCE_WINDOW = 1000;
+
+// The state undo restores; view state such as zoom, pan and tool is left alone
+const TRACKED_KEYS: (keyof CanvasState)[] = [
+  'layers',
+  'activeLayerId',
+  'selectedObjectIds',
+  'artboards',
+  'activeArtboardId',
+  'guides'
+];
+
+// Whether two states hold the same document, whatever is selected in them
+export const isSameDocument = (a: CanvasState, b: CanvasState): boolean => {
+  return TRACKED_KEYS.every(key => key === 'selectedObjectIds' || a[key] === b[key]);
+};
+
+// Names an action on one or more objects, e.g. "Move Object", "Move 3 Objects"
+export const getObjectsLabel = (action: string, count: number): string => {
+  return count === 1 ? `${action} Object` : `${action} ${count} Objects`;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const jsonSize = (value: unknown): number => {
+  return value === undefined ? 0 : (JSON.stringify(value) || '').length;
+};
+
+// Bytes a patch value keeps alive that the other side of the change does
+// not; array items shared between both sides only cost a reference
+const retainedSize = (value: unknown, other: unknown): number => {
+  if (Array.isArray(value) && Array.isArray(other)) {
+    const shared = new Set(other);
+    return value.reduce((sum: number, item) => sum + (shared.has(item) ? 8 : jsonSize(item)), 16);
+  }
+  return jsonSize(value);
+};
+
+// Walks both values in step, skipping anything shared by reference, which
+// keeps diffs of structurally shared state proportional to the change
+const diffValues = (before: unknown, after: unknown, path: Patch['path'], entry: Pick<HistoryEntry, 'patches' | 'inversePatches' | 'size'>) => {
+  if (before === after) return;
+
+  if (Array.isArray(before) && Array.isArray(after) && before.length === after.length) {
+    before.forEach((item, i) => diffValues(item, after[i], [...path, i], entry));
+    return;
+  }
+
+  if (isRecord(before) && isRecord(after)) {
+    new Set([...Object.keys(before), ...Object.keys(after)]).forEach(key => {
+      diffValues(before[key], after[key], [...path, key], entry);
+    });
+    return;
+  }
+
+  entry.patches.push({ path, value: after });
+  entry.inversePatches.unshift({ path, value: before });
+  entry.size += retainedSize(after, before) + retainedSize(before, after) + path.length * 8;
+};
+
+export const createHistoryEntry = (
+  before: CanvasState,
+  after: CanvasState,
+  label: string,
+  coalesceKey?: string
+): HistoryEntry | null => {
+  const entry: HistoryEntry = { label, patches: [], inversePatches: [], size: 0, timestamp: Date.now(), coalesceKey };
+  TRACKED_KEYS.forEach(key => diffValues(before[key], after[key], [key], entry));
+  return entry.patches.length > 0 ? entry : null;
+};
+
+const setIn = (target: unknown, path: Patch['path'], value: unknown): unknown => {
+  if (path.length === 0) return value;
+
+  const [key, ...rest] = path;
+  if (Array.isArray(target)) {
+    const copy = [...target];
+    copy[key as number] = setIn(target[key as number], rest, value);
+    return copy;
+  }
+
+  const copy = { ...(target as Record<string, unknown>) };
+  const next = setIn(copy[key], rest, value);
+  if (next === undefined) {
+    delete copy[key];
+  } else {
+    copy[key] = next;
+  }
+  return copy;
+};
+
+// Copies only along the patched paths; everything else stays shared
+export const applyPatches = (state: CanvasState, patches: Patch[]): CanvasState => {
+  return patches.reduce((current, patch) => setIn(current, patch.path, patch.value) as CanvasState, state);
+};
+
+// Drops the oldest undo steps until the history fits its memory budget
+const trimHistory = (past: HistoryEntry[], future: HistoryEntry[]): HistoryEntry[] => {
+  let total = [...past, ...future].reduce((sum, entry) => sum + entry.size, 0);
+  let start = 0;
+  while (total > MAX_HISTORY_BYTES && start < past.length - 1) {
+    total -= past[start].size;
+    start++;
+  }
+  return start > 0 ? past.slice(start) : past;
+};
+
+// Moves the history to `present`, recording the change from the current
+// present as an undo step. A change with the same coalesce key as the step
+// before it, made within the window and with nothing undone since, is
+// folded into that step instead.
+export const recordChange = (
+  history: HistoryState,
+  present: CanvasState,
+  label: string,
+  coalesceKey?: string,
+  base: CanvasState = history.present
+): HistoryState => {
+  const last = history.past[history.past.length - 1];
+  const coalesce = coalesceKey !== undefined
+    && last?.coalesceKey === coalesceKey
+    && history.future.length === 0
+    && Date.now() - last.timestamp < COALESCE_WINDOW;
+
+  if (coalesce) {
+    const merged = createHistoryEntry(applyPatches(base, last.inversePatches), present, last.label, coalesceKey);
+    const past = [...history.past.slice(0, -1), ...(merged ? [merged] : [])];
+    return { past: trimHistory(past, []), present, future: [] };
+  }
+
+  const entry = createHistoryEntry(base, present, label, coalesceKey);
+  if (!entry) return { ...history, present };
+  return { past: trimHistory([...history.past, entry], []), present, future: [] };
+};
+
+export const undoHistory = (history: HistoryState): HistoryState => {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: applyPatches(history.present, entry.inversePatches),
+    future: [entry, ...history.future]
+  };
+};
+
+export const redoHistory = (history: HistoryState): HistoryState => {
+  const entry = history.future[0];
+  if (!entry) return history;
+  return {
+    past: [...history.past, entry],
+    present: applyPatches(history.present, entry.patches),
+    future: history.future.slice(1)
+  };
+};
+
+// Undoes or redoes until `pastLength` steps lie behind the present
+export const jumpToHistory = (history: HistoryState, pastLength: number): HistoryState => {
+  let current = history;
+  while (current.past.length > pastLength && current.past.length > 0) current = undoHistory(current);
+  while (current.past.length < pastLength && current.future.length > 0) current = redoHistory(current);
+  return current;
+};
@@ -0,0 +1,9 @@
+// Whether a key event comes from somewhere the user is typing, such as a
+// name or size field. Shortcuts leave those keys to the field.
+export const isTextEntryTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  return target instanceof HTMLInputElement
+    || target instanceof HTMLTextAreaElement
+    || target instanceof HTMLSelectElement
+    || target.isContentEditable;
+};
@@ -0,0 +1,124 @@
+import { ProjectData } from '../types';
+import { deleteUnusedAssets, extractAssets, resolveStoredAssets, storeAssets } from './assets';
+import { ASSETS_STORE, AUTOSAVE_STORE, DOCUMENTS_STORE, PROJECTS_STORE, runTransaction } from './database';
+import { renderThumbnail } from './export';
+import { ProjectLoadError, parseProject, serializeProject } from './project';
+import { getArtboardBox } from './artboards';
+
+// What the library lists for a saved document
+export interface DocumentSummary {
+  id: string;
+  name: string;
+  // PNG data URL of the document's active artboard
+  thumbnail: string;
+  createdAt: number;
+  modifiedAt: number;
+}
+
+export const createThumbnail = async (project: ProjectData): Promise<string> => {
+  const artboard = project.artboards.find(board => board.id === project.activeArtboardId) || project.artboards[0];
+  try {
+    return await renderThumbnail(project.layers, getArtboardBox(artboard));
+  } catch (error) {
+    // A document without a preview is still worth saving
+    console.error('Failed to render thumbnail:', error);
+    return '';
+  }
+};
+
+// Ids outlive the session, so a counter would repeat after a reload; the
+// random suffix keeps two documents saved in the same millisecond apart
+const createDocumentId = (now: number) => `doc-${now}-${Math.random().toString(36).slice(2, 10)}`;
+
+// Images go to the asset store and the project keeps references to them,
+// so a duplicated document or image costs no second copy
+const putDocument = async (summary: DocumentSummary, project: ProjectData): Promise<void> => {
+  const { project: stored, assets } = await extractAssets(project);
+  await runTransaction([DOCUMENTS_STORE, PROJECTS_STORE, ASSETS_STORE], 'readwrite', transaction => {
+    storeAssets(transaction, assets);
+    transaction.objectStore(DOCUMENTS_STORE).put(summary);
+    transaction.objectStore(PROJECTS_STORE).put(serializeProject(stored), summary.id);
+  });
+};
+
+const getSummary = (id: string): Promise<DocumentSummary | undefined> => {
+  return runTransaction<DocumentSummary | undefined>([DOCUMENTS_STORE], 'readonly', transaction =>
+    transaction.objectStore(DOCUMENTS_STORE).get(id)
+  );
+};
+
+// Most recently modified first
+export const listDocuments = async (): Promise<DocumentSummary[]> => {
+  const summaries = await runTransaction<DocumentSummary[]>([DOCUMENTS_STORE], 'readonly', transaction =>
+    transaction.objectStore(DOCUMENTS_STORE).getAll()
+  );
+  return summaries.sort((a, b) => b.modifiedAt - a.modifiedAt);
+};
+
+// Documents are stored as project files, so ones saved in an older format
+// are migrated as they are opened
+export const loadDocument = async (id: string): Promise<ProjectData | null> => {
+  const file = await runTransaction<unknown>([PROJECTS_STORE], 'readonly', transaction =>
+    transaction.objectStore(PROJECTS_STORE).get(id)
+  );
+  if (file === undefined) return null;
+
+  const { project, issues } = await resolveStoredAssets(parseProject(file));
+  if (issues.length > 0) {
+    throw new ProjectLoadError(`The document is missing ${issues.length} image${issues.length === 1 ? '' : 's'}:`, issues);
+  }
+  return project;
+};
+
+// Saves over the document with `id`, or as a new document when there is
+// none; the thumbnail is redrawn either way
+export const saveDocument = async (project: ProjectData, name: string, id?: string): Promise<DocumentSummary> => {
+  const existing = id ? await getSummary(id) : undefined;
+  const now = Date.now();
+  const summary: DocumentSummary = {
+    id: existing?.id || createDocumentId(now),
+    name,
+    thumbnail: await createThumbnail(project),
+    createdAt: existing?.createdAt || now,
+    modifiedAt: now
+  };
+  await putDocument(summary, project);
+  return summary;
+};
+
+export const renameDocument = async (id: string, name: string): Promise<DocumentSummary | null> => {
+  const summary = await getSummary(id);
+  if (!summary) return null;
+
+  const renamed = { ...summary, name, modifiedAt: Date.now() };
+  await runTransaction([DOCUMENTS_STORE], 'readwrite', transaction => {
+    transaction.objectStore(DOCUMENTS_STORE).put(renamed);
+  });
+  return renamed;
+};
+
+export const duplicateDocument = async (id: string): Promise<DocumentSummary | null> => {
+  const [summary, project] = await Promise.all([getSummary(id), loadDocument(id)]);
+  if (!summary || !project) return null;
+
+  const now = Date.now();
+  const copy: DocumentSummary = {
+    ...summary,
+    id: createDocumentId(now),
+    name: `${summary.name} copy`,
+    createdAt: now,
+    modifiedAt: now
+  };
+  await putDocument(copy, project);
+  return copy;
+};
+
+// Also drops the images no longer used anywhere, including ones left over
+// from earlier saves of other documents
+export const deleteDocument = async (id: string): Promise<void> => {
+  await runTransaction([DOCUMENTS_STORE, PROJECTS_STORE, AUTOSAVE_STORE, ASSETS_STORE], 'readwrite', transaction => {
+    transaction.objectStore(DOCUMENTS_STORE).delete(id);
+    transaction.objectStore(PROJECTS_STORE).delete(id);
+    deleteUnusedAssets(transaction);
+  });
+};
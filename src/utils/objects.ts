@@ -0,0 +1,80 @@
+import { CanvasObject, Matrix } from '../types';
+import { applyMatrix, getObjectSegments, matrixToTransform, multiplyMatrices, transformToMatrix } from './geometry';
+import { transformSegments } from './path';
+
+// Every object in the tree, each group followed by its descendants
+export const flattenObjects = (objects: CanvasObject[]): CanvasObject[] => {
+  return objects.flatMap(obj => obj.type === 'group' ? [obj, ...flattenObjects(obj.children)] : [obj]);
+};
+
+export const findObject = (objects: CanvasObject[], objectId: string): CanvasObject | undefined => {
+  return flattenObjects(objects).find(obj => obj.id === objectId);
+};
+
+// Replaces the object with the given id wherever it sits in the tree
+export const updateObjectInTree = (
+  objects: CanvasObject[],
+  objectId: string,
+  update: (obj: CanvasObject) => CanvasObject
+): CanvasObject[] => {
+  return objects.map(obj => {
+    if (obj.id === objectId) return update(obj);
+    if (obj.type === 'group') {
+      return { ...obj, children: updateObjectInTree(obj.children, objectId, update) };
+    }
+    return obj;
+  });
+};
+
+export const removeObjectsFromTree = (objects: CanvasObject[], objectIds: string[]): CanvasObject[] => {
+  return objects
+    .filter(obj => !objectIds.includes(obj.id))
+    .map(obj => obj.type === 'group' ? { ...obj, children: removeObjectsFromTree(obj.children, objectIds) } : obj);
+};
+
+// Folds a parent (group) matrix into the object so it keeps its place on the
+// canvas once taken out of the group. Where the result is skewed, geometry
+// that can carry it is baked in, rects and circles becoming paths. Text and
+// images cannot, and lose the skew; see losesSkew.
+export const applyParentMatrix = (obj: CanvasObject, parentMatrix: Matrix): CanvasObject => {
+  const matrix = multiplyMatrices(parentMatrix, transformToMatrix(obj.transform));
+  const transform = matrixToTransform(matrix);
+  if (transform) return { ...obj, transform };
+
+  const identity = { x: 0, y: 0, rotation: 0, scaleX: 1, scaleY: 1 };
+  switch (obj.type) {
+    case 'rect':
+    case 'circle': {
+      const { id, style, visible, locked, selected } = obj;
+      const segments = transformSegments(getObjectSegments(obj)!, matrix);
+      return { id, type: 'path', transform: identity, style, visible, locked, selected, segments };
+    }
+    case 'path':
+      return { ...obj, transform: identity, segments: transformSegments(obj.segments, matrix) };
+    case 'curve':
+      return {
+        ...obj,
+        transform: identity,
+        points: obj.points.map(p => applyMatrix(p, matrix)),
+        controlPoints: obj.controlPoints.map(p => applyMatrix(p, matrix))
+      };
+    case 'line': {
+      const start = applyMatrix({ x: obj.x1, y: obj.y1 }, matrix);
+      const end = applyMatrix({ x: obj.x2, y: obj.y2 }, matrix);
+      return { ...obj, transform: identity, x1: start.x, y1: start.y, x2: end.x, y2: end.y };
+    }
+    case 'group':
+      return { ...obj, transform: identity, children: obj.children.map(child => applyParentMatrix(child, matrix)) };
+    default:
+      return { ...obj, transform: matrixToTransform(matrix, true)! };
+  }
+};
+
+// Whether applyParentMatrix would have to drop a skew from text or an image
+// in the object, distorting it
+export const losesSkew = (obj: CanvasObject, parentMatrix: Matrix): boolean => {
+  const matrix = multiplyMatrices(parentMatrix, transformToMatrix(obj.transform));
+  if (matrixToTransform(matrix)) return false;
+  if (obj.type === 'group') return obj.children.some(child => losesSkew(child, matrix));
+  return obj.type === 'text' || obj.type === 'image';
+};
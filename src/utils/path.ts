@@ -0,0 +1,982 @@
+import { BoundingBox, Point, PathSegment, ArcSegment, CubicSegment, LineSegment, Matrix, MoveSegment, QuadraticSegment } from '../types';
+import { applyMatrix, getPointsBounds, isSimilarityMatrix } from './geometry';
+
+export const polylineToSegments = (points: Point[], closed: boolean = false): PathSegment[] => {
+  if (points.length === 0) return [];
+
+  const segments: PathSegment[] = [
+    { type: 'M', x: points[0].x, y: points[0].y },
+    ...points.slice(1).map(p => ({ type: 'L' as const, x: p.x, y: p.y }))
+  ];
+  if (closed) segments.push({ type: 'Z' });
+  return segments;
+};
+
+// An anchor with absolute handle positions, as laid down by the pen tool. A
+// handle resting on its anchor adds no curvature on that side.
+export interface BezierNode {
+  anchor: Point;
+  handleIn: Point;
+  handleOut: Point;
+}
+
+// Straight where both facing handles are retracted, cubic otherwise. A curved
+// closing segment is written out explicitly before the 'Z'.
+export const bezierNodesToSegments = (nodes: BezierNode[], closed: boolean = false): PathSegment[] => {
+  if (nodes.length === 0) return [];
+
+  const connect = (from: BezierNode, to: BezierNode): PathSegment => {
+    const straight = from.handleOut.x === from.anchor.x && from.handleOut.y === from.anchor.y &&
+      to.handleIn.x === to.anchor.x && to.handleIn.y === to.anchor.y;
+    return straight
+      ? { type: 'L', x: to.anchor.x, y: to.anchor.y }
+      : {
+          type: 'C',
+          x1: from.handleOut.x,
+          y1: from.handleOut.y,
+          x2: to.handleIn.x,
+          y2: to.handleIn.y,
+          x: to.anchor.x,
+          y: to.anchor.y
+        };
+  };
+
+  const segments: PathSegment[] = [{ type: 'M', x: nodes[0].anchor.x, y: nodes[0].anchor.y }];
+  for (let i = 1; i < nodes.length; i++) {
+    segments.push(connect(nodes[i - 1], nodes[i]));
+  }
+
+  if (closed) {
+    const closing = connect(nodes[nodes.length - 1], nodes[0]);
+    if (closing.type === 'C') segments.push(closing);
+    segments.push({ type: 'Z' });
+  }
+  return segments;
+};
+
+// Catmull-Rom spline through the points, expressed as cubic segments
+export const smoothCurveToSegments = (points: Point[]): PathSegment[] => {
+  if (points.length < 3) return polylineToSegments(points);
+
+  const segments: PathSegment[] = [{ type: 'M', x: points[0].x, y: points[0].y }];
+
+  for (let i = 0; i < points.length - 1; i++) {
+    const p0 = points[i - 1] || points[i];
+    const p1 = points[i];
+    const p2 = points[i + 1];
+    const p3 = points[i + 2] || points[i + 1];
+
+    segments.push({
+      type: 'C',
+      x1: p1.x + (p2.x - p0.x) / 6,
+      y1: p1.y + (p2.y - p0.y) / 6,
+      x2: p2.x - (p3.x - p1.x) / 6,
+      y2: p2.y - (p3.y - p1.y) / 6,
+      x: p2.x,
+      y: p2.y
+    });
+  }
+
+  return segments;
+};
+
+export const segmentsToPathData = (segments: PathSegment[]): string => {
+  return segments.map(seg => {
+    switch (seg.type) {
+      case 'M':
+      case 'L':
+        return `${seg.type} ${seg.x} ${seg.y}`;
+      case 'C':
+        return `C ${seg.x1} ${seg.y1} ${seg.x2} ${seg.y2} ${seg.x} ${seg.y}`;
+      case 'Q':
+        return `Q ${seg.x1} ${seg.y1} ${seg.x} ${seg.y}`;
+      case 'A':
+        return `A ${seg.rx} ${seg.ry} ${seg.xAxisRotation} ${seg.largeArc ? 1 : 0} ${seg.sweep ? 1 : 0} ${seg.x} ${seg.y}`;
+      case 'Z':
+        return 'Z';
+    }
+  }).join(' ');
+};
+
+// Splits a segment list at each 'M' so callers can work per subpath
+export const getSubpaths = (segments: PathSegment[]): PathSegment[][] => {
+  const subpaths: PathSegment[][] = [];
+  segments.forEach(seg => {
+    if (seg.type === 'M' || subpaths.length === 0) {
+      subpaths.push([]);
+    }
+    subpaths[subpaths.length - 1].push(seg);
+  });
+  return subpaths;
+};
+
+// Every coordinate a segment list references, control points included
+export const getSegmentPoints = (segments: PathSegment[]): Point[] => {
+  return segments.flatMap(seg => {
+    switch (seg.type) {
+      case 'M':
+      case 'L':
+      case 'A':
+        return [{ x: seg.x, y: seg.y }];
+      case 'C':
+        return [{ x: seg.x1, y: seg.y1 }, { x: seg.x2, y: seg.y2 }, { x: seg.x, y: seg.y }];
+      case 'Q':
+        return [{ x: seg.x1, y: seg.y1 }, { x: seg.x, y: seg.y }];
+      case 'Z':
+        return [];
+    }
+  });
+};
+
+const NUMBER_PATTERN = /^[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/;
+const COMMAND_PATTERN = /[MmLlHhVvCcSsQqTtAaZz]/;
+
+// Scans SVG path data one number, flag or command letter at a time
+class PathDataScanner {
+  private pos = 0;
+
+  constructor(private readonly data: string) {}
+
+  private skipSeparators() {
+    while (this.pos < this.data.length && /[\s,]/.test(this.data[this.pos])) {
+      this.pos++;
+    }
+  }
+
+  atEnd(): boolean {
+    this.skipSeparators();
+    return this.pos >= this.data.length;
+  }
+
+  peekCommand(): boolean {
+    this.skipSeparators();
+    return COMMAND_PATTERN.test(this.data[this.pos] || '');
+  }
+
+  readCommand(): string {
+    this.skipSeparators();
+    const command = this.data[this.pos];
+    if (!COMMAND_PATTERN.test(command || '')) {
+      throw new Error(`Expected path command at position ${this.pos}`);
+    }
+    this.pos++;
+    return command;
+  }
+
+  readNumber(): number {
+    this.skipSeparators();
+    const match = this.data.slice(this.pos).match(NUMBER_PATTERN);
+    if (!match) {
+      throw new Error(`Expected number at position ${this.pos}`);
+    }
+    this.pos += match[0].length;
+    return parseFloat(match[0]);
+  }
+
+  // Arc flags may be written without separators, e.g. "a1 1 0 00 1 1"
+  readFlag(): boolean {
+    this.skipSeparators();
+    const flag = this.data[this.pos];
+    if (flag !== '0' && flag !== '1') {
+      throw new Error(`Expected arc flag at position ${this.pos}`);
+    }
+    this.pos++;
+    return flag === '1';
+  }
+}
+
+// Parses an SVG `d` attribute into absolute segments. H/V become lines and the
+// smooth S/T shorthands are expanded to full cubic/quadratic control points.
+// Malformed data stops parsing at the error, keeping what was read so far,
+// which matches how browsers render broken paths.
+export const parsePathData = (data: string): PathSegment[] => {
+  const segments: PathSegment[] = [];
+  const scanner = new PathDataScanner(data);
+
+  let current: Point = { x: 0, y: 0 };
+  let subpathStart: Point = { x: 0, y: 0 };
+  let lastControl: Point | null = null;
+  let lastCommand = '';
+
+  try {
+    while (!scanner.atEnd()) {
+      const explicit = scanner.peekCommand();
+      let command = explicit ? scanner.readCommand() : lastCommand;
+      if (!command) {
+        throw new Error('Path data must start with a command');
+      }
+      // Coordinates repeated after a moveto are implicit linetos
+      if (!explicit) {
+        if (command === 'M') command = 'L';
+        if (command === 'm') command = 'l';
+      }
+      // Drawing straight on after a closepath starts a new subpath at its start
+      if (lastCommand.toUpperCase() === 'Z' && command.toUpperCase() !== 'M') {
+        segments.push({ type: 'M', ...subpathStart });
+      }
+
+      const relative = command === command.toLowerCase();
+      const ox = relative ? current.x : 0;
+      const oy = relative ? current.y : 0;
+      let control: Point | null = null;
+
+      switch (command.toUpperCase()) {
+        case 'M': {
+          current = { x: ox + scanner.readNumber(), y: oy + scanner.readNumber() };
+          subpathStart = current;
+          segments.push({ type: 'M', ...current });
+          break;
+        }
+        case 'L': {
+          current = { x: ox + scanner.readNumber(), y: oy + scanner.readNumber() };
+          segments.push({ type: 'L', ...current });
+          break;
+        }
+        case 'H': {
+          current = { x: ox + scanner.readNumber(), y: current.y };
+          segments.push({ type: 'L', ...current });
+          break;
+        }
+        case 'V': {
+          current = { x: current.x, y: oy + scanner.readNumber() };
+          segments.push({ type: 'L', ...current });
+          break;
+        }
+        case 'C':
+        case 'S': {
+          let c1: Point;
+          if (command.toUpperCase() === 'C') {
+            c1 = { x: ox + scanner.readNumber(), y: oy + scanner.readNumber() };
+          } else {
+            c1 = lastControl && /[CcSs]/.test(lastCommand)
+              ? { x: 2 * current.x - lastControl.x, y: 2 * current.y - lastControl.y }
+              : current;
+          }
+          const c2 = { x: ox + scanner.readNumber(), y: oy + scanner.readNumber() };
+          current = { x: ox + scanner.readNumber(), y: oy + scanner.readNumber() };
+          segments.push({ type: 'C', x1: c1.x, y1: c1.y, x2: c2.x, y2: c2.y, ...current });
+          control = c2;
+          break;
+        }
+        case 'Q':
+        case 'T': {
+          let c: Point;
+          if (command.toUpperCase() === 'Q') {
+            c = { x: ox + scanner.readNumber(), y: oy + scanner.readNumber() };
+          } else {
+            c = lastControl && /[QqTt]/.test(lastCommand)
+              ? { x: 2 * current.x - lastControl.x, y: 2 * current.y - lastControl.y }
+              : current;
+          }
+          current = { x: ox + scanner.readNumber(), y: oy + scanner.readNumber() };
+          segments.push({ type: 'Q', x1: c.x, y1: c.y, ...current });
+          control = c;
+          break;
+        }
+        case 'A': {
+          const rx = Math.abs(scanner.readNumber());
+          const ry = Math.abs(scanner.readNumber());
+          const xAxisRotation = scanner.readNumber();
+          const largeArc = scanner.readFlag();
+          const sweep = scanner.readFlag();
+          current = { x: ox + scanner.readNumber(), y: oy + scanner.readNumber() };
+          segments.push({ type: 'A', rx, ry, xAxisRotation, largeArc, sweep, ...current });
+          break;
+        }
+        case 'Z': {
+          current = subpathStart;
+          segments.push({ type: 'Z' });
+          break;
+        }
+      }
+
+      lastControl = control;
+      lastCommand = command;
+
+      // Z takes no arguments, so the next token must be a new command
+      if (command.toUpperCase() === 'Z' && !scanner.atEnd() && !scanner.peekCommand()) {
+        throw new Error('Unexpected number after closepath');
+      }
+    }
+  } catch (error) {
+    console.warn('Failed to parse path data:', error);
+  }
+
+  return segments;
+};
+
+// Converts an endpoint-parameterised arc into cubic segments of at most 90°
+// each, following the SVG implementation notes (F.6.5) for the center form
+export const arcToCubics = (from: Point, arc: ArcSegment): CubicSegment[] => {
+  let { rx, ry } = arc;
+  if (rx === 0 || ry === 0 || (from.x === arc.x && from.y === arc.y)) {
+    return [{ type: 'C', x1: from.x, y1: from.y, x2: arc.x, y2: arc.y, x: arc.x, y: arc.y }];
+  }
+
+  const phi = arc.xAxisRotation * Math.PI / 180;
+  const cosPhi = Math.cos(phi);
+  const sinPhi = Math.sin(phi);
+
+  const dx = (from.x - arc.x) / 2;
+  const dy = (from.y - arc.y) / 2;
+  const x1p = cosPhi * dx + sinPhi * dy;
+  const y1p = -sinPhi * dx + cosPhi * dy;
+
+  // Scale radii up when they are too small to reach the endpoint
+  const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1p * y1p - ry * ry * x1p * x1p;
+  const denominator = rx * rx * y1p * y1p + ry * ry * x1p * x1p;
+  let coef = Math.sqrt(Math.max(0, numerator / denominator));
+  if (arc.largeArc === arc.sweep) coef = -coef;
+
+  const cxp = coef * (rx * y1p) / ry;
+  const cyp = coef * -(ry * x1p) / rx;
+  const cx = cosPhi * cxp - sinPhi * cyp + (from.x + arc.x) / 2;
+  const cy = sinPhi * cxp + cosPhi * cyp + (from.y + arc.y) / 2;
+
+  const vectorAngle = (ux: number, uy: number, vx: number, vy: number) => {
+    const sign = ux * vy - uy * vx < 0 ? -1 : 1;
+    const dot = (ux * vx + uy * vy) / (Math.hypot(ux, uy) * Math.hypot(vx, vy));
+    return sign * Math.acos(Math.max(-1, Math.min(1, dot)));
+  };
+
+  const theta1 = vectorAngle(1, 0, (x1p - cxp) / rx, (y1p - cyp) / ry);
+  let deltaTheta = vectorAngle((x1p - cxp) / rx, (y1p - cyp) / ry, (-x1p - cxp) / rx, (-y1p - cyp) / ry);
+  if (!arc.sweep && deltaTheta > 0) deltaTheta -= 2 * Math.PI;
+  if (arc.sweep && deltaTheta < 0) deltaTheta += 2 * Math.PI;
+
+  const pieces = Math.ceil(Math.abs(deltaTheta) / (Math.PI / 2));
+  const step = deltaTheta / pieces;
+  const handle = 4 / 3 * Math.tan(step / 4);
+
+  const pointAt = (theta: number): Point => ({
+    x: cx + rx * Math.cos(theta) * cosPhi - ry * Math.sin(theta) * sinPhi,
+    y: cy + rx * Math.cos(theta) * sinPhi + ry * Math.sin(theta) * cosPhi
+  });
+  const derivativeAt = (theta: number): Point => ({
+    x: -rx * Math.sin(theta) * cosPhi - ry * Math.cos(theta) * sinPhi,
+    y: -rx * Math.sin(theta) * sinPhi + ry * Math.cos(theta) * cosPhi
+  });
+
+  const cubics: CubicSegment[] = [];
+  for (let i = 0; i < pieces; i++) {
+    const t1 = theta1 + i * step;
+    const t2 = t1 + step;
+    const p1 = pointAt(t1);
+    const p2 = i === pieces - 1 ? { x: arc.x, y: arc.y } : pointAt(t2);
+    const d1 = derivativeAt(t1);
+    const d2 = derivativeAt(t2);
+    cubics.push({
+      type: 'C',
+      x1: p1.x + handle * d1.x,
+      y1: p1.y + handle * d1.y,
+      x2: p2.x - handle * d2.x,
+      y2: p2.y - handle * d2.y,
+      x: p2.x,
+      y: p2.y
+    });
+  }
+  return cubics;
+};
+
+// Maps segments through a matrix. Arcs are kept as arcs under similarity
+// transforms and flattened to cubics otherwise, since a skewed or unevenly
+// scaled ellipse has no exact endpoint arc form here.
+export const transformSegments = (segments: PathSegment[], m: Matrix): PathSegment[] => {
+  const similarity = isSimilarityMatrix(m);
+  const scale = Math.sqrt(Math.abs(m.a * m.d - m.b * m.c));
+  const rotation = Math.atan2(m.b, m.a) * 180 / Math.PI;
+  const mirrored = m.a * m.d - m.b * m.c < 0;
+
+  const result: PathSegment[] = [];
+  let current: Point = { x: 0, y: 0 };
+  let subpathStart: Point = { x: 0, y: 0 };
+
+  const map = (x: number, y: number) => applyMatrix({ x, y }, m);
+
+  segments.forEach(seg => {
+    switch (seg.type) {
+      case 'M':
+      case 'L':
+        result.push({ type: seg.type, ...map(seg.x, seg.y) });
+        break;
+      case 'C': {
+        const c1 = map(seg.x1, seg.y1);
+        const c2 = map(seg.x2, seg.y2);
+        result.push({ type: 'C', x1: c1.x, y1: c1.y, x2: c2.x, y2: c2.y, ...map(seg.x, seg.y) });
+        break;
+      }
+      case 'Q': {
+        const c = map(seg.x1, seg.y1);
+        result.push({ type: 'Q', x1: c.x, y1: c.y, ...map(seg.x, seg.y) });
+        break;
+      }
+      case 'A':
+        if (similarity) {
+          result.push({
+            ...seg,
+            rx: seg.rx * scale,
+            ry: seg.ry * scale,
+            xAxisRotation: mirrored ? rotation - seg.xAxisRotation : seg.xAxisRotation + rotation,
+            sweep: mirrored ? !seg.sweep : seg.sweep,
+            ...map(seg.x, seg.y)
+          });
+        } else {
+          result.push(...transformSegments(arcToCubics(current, seg), m));
+        }
+        break;
+      case 'Z':
+        result.push(seg);
+        break;
+    }
+
+    if (seg.type === 'M') subpathStart = { x: seg.x, y: seg.y };
+    current = seg.type === 'Z' ? subpathStart : { x: seg.x, y: seg.y };
+  });
+
+  return result;
+};
+
+export const rectToSegments = (x: number, y: number, width: number, height: number, rx: number = 0, ry: number = rx): PathSegment[] => {
+  rx = Math.min(Math.abs(rx), width / 2);
+  ry = Math.min(Math.abs(ry), height / 2);
+  if (rx === 0 || ry === 0) {
+    return polylineToSegments([
+      { x, y },
+      { x: x + width, y },
+      { x: x + width, y: y + height },
+      { x, y: y + height }
+    ], true);
+  }
+
+  const corner = (toX: number, toY: number): ArcSegment => ({
+    type: 'A', rx, ry, xAxisRotation: 0, largeArc: false, sweep: true, x: toX, y: toY
+  });
+  return [
+    { type: 'M', x: x + rx, y },
+    { type: 'L', x: x + width - rx, y },
+    corner(x + width, y + ry),
+    { type: 'L', x: x + width, y: y + height - ry },
+    corner(x + width - rx, y + height),
+    { type: 'L', x: x + rx, y: y + height },
+    corner(x, y + height - ry),
+    { type: 'L', x, y: y + ry },
+    corner(x + rx, y),
+    { type: 'Z' }
+  ];
+};
+
+export const ellipseToSegments = (cx: number, cy: number, rx: number, ry: number = rx): PathSegment[] => {
+  const half = (toX: number, toY: number): ArcSegment => ({
+    type: 'A', rx, ry, xAxisRotation: 0, largeArc: false, sweep: true, x: toX, y: toY
+  });
+  return [
+    { type: 'M', x: cx + rx, y: cy },
+    half(cx - rx, cy),
+    half(cx + rx, cy),
+    { type: 'Z' }
+  ];
+};
+
+// --- Node editing -----------------------------------------------------------
+
+export interface PathNode {
+  // Index of the segment whose endpoint is this anchor
+  index: number;
+  anchor: Point;
+  handleIn: Point | null;
+  handleOut: Point | null;
+  smooth: boolean;
+}
+
+export type NodeHandle = 'in' | 'out';
+
+const EPSILON = 1e-6;
+
+const samePoint = (a: Point, b: Point): boolean => Math.abs(a.x - b.x) < EPSILON && Math.abs(a.y - b.y) < EPSILON;
+
+const endpoint = (seg: PathSegment): Point | null => seg.type === 'Z' ? null : { x: seg.x, y: seg.y };
+
+const isDrawing = (seg: PathSegment | undefined): seg is LineSegment | CubicSegment | QuadraticSegment | ArcSegment => {
+  return !!seg && seg.type !== 'M' && seg.type !== 'Z';
+};
+
+// Node editing works on lines and cubics only: quadratics are raised to
+// cubics (exactly) and arcs flattened to cubics
+export const toEditableSegments = (segments: PathSegment[]): PathSegment[] => {
+  const result: PathSegment[] = [];
+  let current: Point = { x: 0, y: 0 };
+  let subpathStart: Point = { x: 0, y: 0 };
+
+  segments.forEach(seg => {
+    if (seg.type === 'Q') {
+      result.push({
+        type: 'C',
+        x1: current.x + 2 / 3 * (seg.x1 - current.x),
+        y1: current.y + 2 / 3 * (seg.y1 - current.y),
+        x2: seg.x + 2 / 3 * (seg.x1 - seg.x),
+        y2: seg.y + 2 / 3 * (seg.y1 - seg.y),
+        x: seg.x,
+        y: seg.y
+      });
+    } else if (seg.type === 'A') {
+      result.push(...arcToCubics(current, seg));
+    } else {
+      result.push(seg);
+    }
+
+    if (seg.type === 'M') subpathStart = { x: seg.x, y: seg.y };
+    current = seg.type === 'Z' ? subpathStart : { x: seg.x, y: seg.y };
+  });
+
+  return result;
+};
+
+// The segment that draws a closed subpath back onto its starting 'M', if the
+// path repeats the start point instead of letting 'Z' draw the last line
+const getClosingPartner = (segments: PathSegment[], moveIndex: number): number | null => {
+  let i = moveIndex + 1;
+  while (i < segments.length && segments[i].type !== 'M' && segments[i].type !== 'Z') i++;
+  if (segments[i]?.type !== 'Z' || i - 1 <= moveIndex) return null;
+
+  const last = segments[i - 1];
+  const start = segments[moveIndex];
+  return start.type === 'M' && isDrawing(last) && samePoint(endpoint(last)!, start) ? i - 1 : null;
+};
+
+const getStartPoint = (segments: PathSegment[], index: number): Point => {
+  for (let i = index - 1; i >= 0; i--) {
+    const seg = segments[i];
+    if (seg.type !== 'Z') return { x: seg.x, y: seg.y };
+    // After a closepath the pen is back at the subpath's 'M'
+    for (let j = i - 1; j >= 0; j--) {
+      const start = segments[j];
+      if (start.type === 'M') return { x: start.x, y: start.y };
+    }
+  }
+  return { x: 0, y: 0 };
+};
+
+const getSubpathStart = (segments: PathSegment[], index: number): number => {
+  let i = index;
+  while (i > 0 && segments[i].type !== 'M') i--;
+  return i;
+};
+
+// Where a node's handles are stored: the incoming cubic's second control
+// point and the outgoing cubic's first one
+const getHandleSlots = (segments: PathSegment[], index: number) => {
+  const seg = segments[index];
+  const partner = seg.type === 'M' ? getClosingPartner(segments, index) : null;
+  const inIndex = seg.type === 'M' ? partner : index;
+  const outIndex = isDrawing(segments[index + 1]) ? index + 1 : null;
+  return {
+    inIndex: inIndex !== null && segments[inIndex].type === 'C' ? inIndex : null,
+    outIndex: outIndex !== null && segments[outIndex].type === 'C' ? outIndex : null,
+    partner
+  };
+};
+
+const isSmooth = (anchor: Point, handleIn: Point | null, handleOut: Point | null): boolean => {
+  if (!handleIn || !handleOut || samePoint(handleIn, anchor) || samePoint(handleOut, anchor)) return false;
+  const ax = handleIn.x - anchor.x;
+  const ay = handleIn.y - anchor.y;
+  const bx = handleOut.x - anchor.x;
+  const by = handleOut.y - anchor.y;
+  const cross = (ax * by - ay * bx) / (Math.hypot(ax, ay) * Math.hypot(bx, by));
+  return Math.abs(cross) < 0.01 && ax * bx + ay * by < 0;
+};
+
+// Expects segments from toEditableSegments
+export const getPathNodes = (segments: PathSegment[]): PathNode[] => {
+  const hiddenPartners = new Set<number>();
+  segments.forEach((seg, index) => {
+    if (seg.type === 'M') {
+      const partner = getClosingPartner(segments, index);
+      if (partner !== null) hiddenPartners.add(partner);
+    }
+  });
+
+  const nodes: PathNode[] = [];
+  segments.forEach((seg, index) => {
+    if (seg.type === 'Z' || hiddenPartners.has(index)) return;
+
+    const anchor = { x: seg.x, y: seg.y };
+    const { inIndex, outIndex } = getHandleSlots(segments, index);
+    const inSeg = inIndex !== null ? segments[inIndex] as CubicSegment : null;
+    const outSeg = outIndex !== null ? segments[outIndex] as CubicSegment : null;
+    const handleIn = inSeg ? { x: inSeg.x2, y: inSeg.y2 } : null;
+    const handleOut = outSeg ? { x: outSeg.x1, y: outSeg.y1 } : null;
+
+    nodes.push({ index, anchor, handleIn, handleOut, smooth: isSmooth(anchor, handleIn, handleOut) });
+  });
+  return nodes;
+};
+
+export const moveNodeAnchor = (segments: PathSegment[], index: number, to: Point): PathSegment[] => {
+  const seg = segments[index];
+  if (seg.type === 'Z') return segments;
+
+  const dx = to.x - seg.x;
+  const dy = to.y - seg.y;
+  const result = [...segments];
+  const { inIndex, outIndex, partner } = getHandleSlots(segments, index);
+
+  result[index] = { ...seg, x: to.x, y: to.y };
+  if (partner !== null) {
+    result[partner] = { ...(result[partner] as LineSegment | CubicSegment), x: to.x, y: to.y };
+  }
+  if (inIndex !== null) {
+    const inSeg = result[inIndex] as CubicSegment;
+    result[inIndex] = { ...inSeg, x2: inSeg.x2 + dx, y2: inSeg.y2 + dy };
+  }
+  if (outIndex !== null) {
+    const outSeg = result[outIndex] as CubicSegment;
+    result[outIndex] = { ...outSeg, x1: outSeg.x1 + dx, y1: outSeg.y1 + dy };
+  }
+  return result;
+};
+
+// Moves one handle; on a smooth node the opposite handle follows to stay
+// collinear (keeping its own length) unless `independent` is set
+export const moveNodeHandle = (
+  segments: PathSegment[],
+  index: number,
+  handle: NodeHandle,
+  to: Point,
+  independent: boolean = false
+): PathSegment[] => {
+  const node = getPathNodes(segments).find(n => n.index === index);
+  if (!node) return segments;
+
+  const { inIndex, outIndex } = getHandleSlots(segments, index);
+  const slot = handle === 'in' ? inIndex : outIndex;
+  if (slot === null) return segments;
+
+  const result = [...segments];
+  const setHandle = (which: NodeHandle, point: Point) => {
+    const target = which === 'in' ? inIndex : outIndex;
+    if (target === null) return;
+    const seg = result[target] as CubicSegment;
+    result[target] = which === 'in'
+      ? { ...seg, x2: point.x, y2: point.y }
+      : { ...seg, x1: point.x, y1: point.y };
+  };
+
+  setHandle(handle, to);
+
+  const opposite = handle === 'in' ? node.handleOut : node.handleIn;
+  if (node.smooth && !independent && opposite) {
+    const length = Math.hypot(opposite.x - node.anchor.x, opposite.y - node.anchor.y);
+    const dx = to.x - node.anchor.x;
+    const dy = to.y - node.anchor.y;
+    const dragLength = Math.hypot(dx, dy);
+    if (dragLength > EPSILON) {
+      setHandle(handle === 'in' ? 'out' : 'in', {
+        x: node.anchor.x - dx / dragLength * length,
+        y: node.anchor.y - dy / dragLength * length
+      });
+    }
+  }
+  return result;
+};
+
+// Removes an anchor, joining its neighbours with one segment that keeps the
+// outer handles. Subpaths left with a single anchor are removed entirely.
+export const deleteNode = (segments: PathSegment[], index: number): PathSegment[] => {
+  const seg = segments[index];
+  if (!seg || seg.type === 'Z') return segments;
+
+  const result = [...segments];
+  const next = segments[index + 1];
+
+  if (seg.type === 'M') {
+    const partner = getClosingPartner(segments, index);
+    if (!isDrawing(next)) return removeSubpath(result, index);
+    result[index + 1] = { type: 'M', x: next.x, y: next.y };
+    if (partner !== null) {
+      result[partner] = { ...(result[partner] as LineSegment | CubicSegment), x: next.x, y: next.y };
+    }
+    result.splice(index, 1);
+  } else if (isDrawing(next)) {
+    const start = getStartPoint(segments, index);
+    const merged: PathSegment = seg.type === 'C' || next.type === 'C'
+      ? {
+          type: 'C',
+          x1: seg.type === 'C' ? seg.x1 : start.x,
+          y1: seg.type === 'C' ? seg.y1 : start.y,
+          x2: next.type === 'C' ? next.x2 : next.x,
+          y2: next.type === 'C' ? next.y2 : next.y,
+          x: next.x,
+          y: next.y
+        }
+      : { type: 'L', x: next.x, y: next.y };
+    result.splice(index, 2, merged);
+  } else {
+    result.splice(index, 1);
+  }
+
+  // Drop subpaths that no longer draw anything
+  const subpathStart = getSubpathStart(result, Math.min(index, result.length - 1));
+  return isDrawing(result[subpathStart + 1]) ? result : removeSubpath(result, subpathStart);
+};
+
+const removeSubpath = (segments: PathSegment[], startIndex: number): PathSegment[] => {
+  let end = startIndex + 1;
+  while (end < segments.length && segments[end].type !== 'M') end++;
+  return [...segments.slice(0, startIndex), ...segments.slice(end)];
+};
+
+// Splits the segment at `index` at parameter t, returning the new segments and
+// the index of the inserted anchor. A 'Z' index splits the closing line.
+export const insertNode = (segments: PathSegment[], index: number, t: number): { segments: PathSegment[]; index: number } => {
+  const seg = segments[index];
+  const start = getStartPoint(segments, index);
+  const lerp = (a: Point, b: Point, k: number): Point => ({ x: a.x + (b.x - a.x) * k, y: a.y + (b.y - a.y) * k });
+
+  if (seg.type === 'Z') {
+    const subpathStart = segments[getSubpathStart(segments, index - 1)] as MoveSegment;
+    const mid = lerp(start, subpathStart, t);
+    return { segments: [...segments.slice(0, index), { type: 'L', ...mid }, ...segments.slice(index)], index };
+  }
+
+  if (seg.type === 'L') {
+    const mid = lerp(start, seg, t);
+    return { segments: [...segments.slice(0, index), { type: 'L', ...mid }, ...segments.slice(index)], index };
+  }
+
+  if (seg.type === 'C') {
+    // de Casteljau subdivision
+    const p1 = { x: seg.x1, y: seg.y1 };
+    const p2 = { x: seg.x2, y: seg.y2 };
+    const p3 = { x: seg.x, y: seg.y };
+    const a = lerp(start, p1, t);
+    const b = lerp(p1, p2, t);
+    const c = lerp(p2, p3, t);
+    const ab = lerp(a, b, t);
+    const bc = lerp(b, c, t);
+    const mid = lerp(ab, bc, t);
+    return {
+      segments: [
+        ...segments.slice(0, index),
+        { type: 'C', x1: a.x, y1: a.y, x2: ab.x, y2: ab.y, x: mid.x, y: mid.y },
+        { type: 'C', x1: bc.x, y1: bc.y, x2: c.x, y2: c.y, x: p3.x, y: p3.y },
+        ...segments.slice(index + 1)
+      ],
+      index
+    };
+  }
+
+  return { segments, index };
+};
+
+// Corner nodes get handles along the line through their neighbours (a third
+// of the way to each); smooth or handled nodes have their handles retracted
+export const toggleNodeSmooth = (segments: PathSegment[], index: number): PathSegment[] => {
+  const node = getPathNodes(segments).find(n => n.index === index);
+  if (!node) return segments;
+
+  const result = [...segments];
+  const { partner } = getHandleSlots(segments, index);
+  const inIndex = segments[index].type === 'M' ? partner : index;
+  const outIndex = isDrawing(segments[index + 1]) ? index + 1 : null;
+  const hasHandles = [node.handleIn, node.handleOut].some(h => h && !samePoint(h, node.anchor));
+
+  const prev = inIndex !== null ? getStartPoint(segments, inIndex) : null;
+  const next = outIndex !== null ? endpoint(segments[outIndex]) : null;
+
+  if (hasHandles) {
+    if (inIndex !== null && result[inIndex].type === 'C') {
+      const inSeg = result[inIndex] as CubicSegment;
+      result[inIndex] = samePoint({ x: inSeg.x1, y: inSeg.y1 }, prev!)
+        ? { type: 'L', x: inSeg.x, y: inSeg.y }
+        : { ...inSeg, x2: node.anchor.x, y2: node.anchor.y };
+    }
+    if (outIndex !== null && result[outIndex].type === 'C') {
+      const outSeg = result[outIndex] as CubicSegment;
+      result[outIndex] = samePoint({ x: outSeg.x2, y: outSeg.y2 }, next!)
+        ? { type: 'L', x: outSeg.x, y: outSeg.y }
+        : { ...outSeg, x1: node.anchor.x, y1: node.anchor.y };
+    }
+    return result;
+  }
+
+  const from = prev || node.anchor;
+  const to = next || node.anchor;
+  const length = Math.hypot(to.x - from.x, to.y - from.y);
+  if (length < EPSILON) return segments;
+  const dir = { x: (to.x - from.x) / length, y: (to.y - from.y) / length };
+
+  if (inIndex !== null && prev) {
+    const inSeg = result[inIndex] as LineSegment | CubicSegment;
+    const reach = Math.hypot(node.anchor.x - prev.x, node.anchor.y - prev.y) / 3;
+    result[inIndex] = {
+      type: 'C',
+      x1: inSeg.type === 'C' ? inSeg.x1 : prev.x,
+      y1: inSeg.type === 'C' ? inSeg.y1 : prev.y,
+      x2: node.anchor.x - dir.x * reach,
+      y2: node.anchor.y - dir.y * reach,
+      x: inSeg.x,
+      y: inSeg.y
+    };
+  }
+  if (outIndex !== null && next) {
+    const outSeg = result[outIndex] as LineSegment | CubicSegment;
+    const reach = Math.hypot(next.x - node.anchor.x, next.y - node.anchor.y) / 3;
+    result[outIndex] = {
+      type: 'C',
+      x1: node.anchor.x + dir.x * reach,
+      y1: node.anchor.y + dir.y * reach,
+      x2: outSeg.type === 'C' ? outSeg.x2 : next.x,
+      y2: outSeg.type === 'C' ? outSeg.y2 : next.y,
+      x: outSeg.x,
+      y: outSeg.y
+    };
+  }
+  return result;
+};
+
+export const pointOnSegment = (start: Point, seg: LineSegment | CubicSegment, t: number): Point => {
+  if (seg.type === 'L') {
+    return { x: start.x + (seg.x - start.x) * t, y: start.y + (seg.y - start.y) * t };
+  }
+  const mt = 1 - t;
+  return {
+    x: mt * mt * mt * start.x + 3 * mt * mt * t * seg.x1 + 3 * mt * t * t * seg.x2 + t * t * t * seg.x,
+    y: mt * mt * mt * start.y + 3 * mt * mt * t * seg.y1 + 3 * mt * t * t * seg.y2 + t * t * t * seg.y
+  };
+};
+
+// Closest point on an editable (line/cubic) path: coarse sampling followed by
+// a local refinement of t. 'Z' entries stand for their closing line.
+export const findNearestOnPath = (
+  segments: PathSegment[],
+  point: Point
+): { index: number; t: number; point: Point; distance: number } | null => {
+  let best: { index: number; t: number; point: Point; distance: number } | null = null;
+  let subpathStart: Point = { x: 0, y: 0 };
+  let current: Point = { x: 0, y: 0 };
+
+  segments.forEach((seg, index) => {
+    if (seg.type === 'M') {
+      subpathStart = { x: seg.x, y: seg.y };
+      current = subpathStart;
+      return;
+    }
+
+    const drawn: LineSegment | CubicSegment | null =
+      seg.type === 'Z' ? { type: 'L', ...subpathStart } :
+      seg.type === 'L' || seg.type === 'C' ? seg : null;
+
+    if (drawn) {
+      const evaluate = (t: number) => {
+        const p = pointOnSegment(current, drawn, t);
+        return { t, point: p, distance: Math.hypot(p.x - point.x, p.y - point.y) };
+      };
+
+      const samples = drawn.type === 'L' ? 8 : 32;
+      let local = evaluate(0);
+      for (let i = 1; i <= samples; i++) {
+        const candidate = evaluate(i / samples);
+        if (candidate.distance < local.distance) local = candidate;
+      }
+      for (let step = 1 / samples; step > 1e-4; step /= 2) {
+        const lower = evaluate(Math.max(0, local.t - step));
+        const upper = evaluate(Math.min(1, local.t + step));
+        if (lower.distance < local.distance) local = lower;
+        if (upper.distance < local.distance) local = upper;
+      }
+
+      if (!best || local.distance < best.distance) {
+        best = { index, ...local };
+      }
+    }
+
+    current = seg.type === 'Z' ? subpathStart : { x: seg.x, y: seg.y };
+  });
+
+  return best;
+};
+
+// Polygonal outline of each subpath, with curves and arcs sampled finely
+// enough for boolean operations and hit testing
+export const flattenSubpaths = (segments: PathSegment[], tolerance: number = 0.5): { points: Point[]; closed: boolean }[] => {
+  const subpaths: { points: Point[]; closed: boolean }[] = [];
+  let current: Point = { x: 0, y: 0 };
+
+  toEditableSegments(segments).forEach(seg => {
+    const points = subpaths[subpaths.length - 1]?.points;
+    if (seg.type === 'M') {
+      subpaths.push({ points: [{ x: seg.x, y: seg.y }], closed: false });
+    } else if (seg.type === 'Z') {
+      if (subpaths.length > 0) subpaths[subpaths.length - 1].closed = true;
+    } else if (seg.type === 'L') {
+      points?.push({ x: seg.x, y: seg.y });
+    } else if (seg.type === 'C') {
+      const hull = Math.hypot(seg.x1 - current.x, seg.y1 - current.y) +
+        Math.hypot(seg.x2 - seg.x1, seg.y2 - seg.y1) +
+        Math.hypot(seg.x - seg.x2, seg.y - seg.y2);
+      const steps = Math.max(4, Math.min(64, Math.ceil(Math.sqrt(hull / tolerance) * 2)));
+      for (let i = 1; i <= steps; i++) {
+        points?.push(pointOnSegment(current, seg, i / steps));
+      }
+    }
+    if (seg.type !== 'Z') current = { x: seg.x, y: seg.y };
+  });
+
+  // Drop the repeated start point of explicitly closed subpaths
+  return subpaths.map(({ points, closed }) => {
+    const repeatsStart = points.length > 1 && samePoint(points[0], points[points.length - 1]);
+    return { points: repeatsStart ? points.slice(0, -1) : points, closed: closed || repeatsStart };
+  });
+};
+
+// Contours for filling: every subpath counts as closed
+export const flattenSegments = (segments: PathSegment[], tolerance: number = 0.5): Point[][] => {
+  return flattenSubpaths(segments, tolerance).map(subpath => subpath.points);
+};
+
+// Parameters in (0, 1) where one coordinate of a cubic turns around: roots of
+// its derivative, a quadratic in t
+const getCubicExtremaParameters = (p0: number, p1: number, p2: number, p3: number): number[] => {
+  const a = -p0 + 3 * p1 - 3 * p2 + p3;
+  const b = 2 * (p0 - 2 * p1 + p2);
+  const c = p1 - p0;
+
+  let roots: number[];
+  if (Math.abs(a) < 1e-12) {
+    roots = Math.abs(b) < 1e-12 ? [] : [-c / b];
+  } else {
+    const discriminant = b * b - 4 * a * c;
+    if (discriminant < 0) return [];
+    const sqrt = Math.sqrt(discriminant);
+    roots = [(-b + sqrt) / (2 * a), (-b - sqrt) / (2 * a)];
+  }
+  return roots.filter(t => t > 0 && t < 1);
+};
+
+// Exact extent of the path, including where curves bulge past their
+// endpoints; arcs are measured through their cubic approximation
+export const getSegmentsBounds = (segments: PathSegment[]): BoundingBox => {
+  const points: Point[] = [];
+  let current: Point = { x: 0, y: 0 };
+
+  toEditableSegments(segments).forEach(seg => {
+    if (seg.type === 'Z') return;
+    if (seg.type === 'C') {
+      [
+        ...getCubicExtremaParameters(current.x, seg.x1, seg.x2, seg.x),
+        ...getCubicExtremaParameters(current.y, seg.y1, seg.y2, seg.y)
+      ].forEach(t => points.push(pointOnSegment(current, seg, t)));
+    }
+    points.push({ x: seg.x, y: seg.y });
+    current = { x: seg.x, y: seg.y };
+  });
+
+  return getPointsBounds(points);
+};
@@ -0,0 +1,135 @@
+import { Artboard, CanvasState, Point, ProjectData, ProjectFile } from '../types';
+import { DEFAULT_ARTBOARD_SIZE } from './artboards';
+import { polylineToSegments } from './path';
+import { ValidationIssue, validateProjectFile } from './schema';
+
+// The format projects are saved in. Changing what is saved means bumping
+// this and adding a migration from the previous version below.
+export const PROJECT_VERSION = 2;
+
+// Problems listed in the message before the rest are only counted
+const MAX_LISTED_ISSUES = 10;
+
+// Project data that cannot be opened; `issues` locates each problem found
+export class ProjectLoadError extends Error {
+  issues: ValidationIssue[];
+
+  constructor(summary: string, issues: ValidationIssue[] = []) {
+    const listed = issues.slice(0, MAX_LISTED_ISSUES).map(issue => `\n• ${issue.path}: ${issue.message}`).join('');
+    const more = issues.length > MAX_LISTED_ISSUES ? `\n…and ${issues.length - MAX_LISTED_ISSUES} more` : '';
+    super(summary + listed + more);
+    this.name = 'ProjectLoadError';
+    this.issues = issues;
+  }
+}
+
+type RawProject = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawProject => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isPoint = (value: unknown): value is Point => {
+  return isRecord(value) && typeof value.x === 'number' && typeof value.y === 'number';
+};
+
+// Paths stored a polyline in `points` before they had segments
+const upgradeLegacyObject = (obj: unknown): unknown => {
+  if (isRecord(obj) && obj.type === 'path' && obj.segments === undefined && Array.isArray(obj.points) && obj.points.every(isPoint)) {
+    const { points, closed, ...rest } = obj;
+    return { ...rest, segments: polylineToSegments(points, closed === true) };
+  }
+  return obj;
+};
+
+// A single `canvasSize` area at the origin came before artboards
+const getLegacyArtboards = (data: RawProject): Artboard[] => {
+  const size = isRecord(data.canvasSize) ? data.canvasSize : DEFAULT_ARTBOARD_SIZE;
+  return [{ id: 'artboard-1', name: 'Artboard 1', x: 0, y: 0, width: Number(size.width), height: Number(size.height) }];
+};
+
+// Each step takes a file from the version it is keyed by to the next one.
+// Steps run before validation, so they must cope with malformed data.
+const MIGRATIONS: Record<number, (data: RawProject) => RawProject> = {
+  // Version 1 ('1.0') files may predate path segments, artboards, guides
+  // and saving the active layer
+  1: data => {
+    const layers = Array.isArray(data.layers)
+      ? data.layers.map(layer => isRecord(layer) && Array.isArray(layer.objects)
+        ? { ...layer, objects: layer.objects.map(upgradeLegacyObject) }
+        : layer)
+      : data.layers;
+    const artboards = Array.isArray(data.artboards) && data.artboards.length > 0 ? data.artboards : getLegacyArtboards(data);
+    const firstLayer = Array.isArray(layers) && isRecord(layers[0]) ? layers[0] : undefined;
+
+    return {
+      ...data,
+      version: 2,
+      layers,
+      activeLayerId: data.activeLayerId ?? firstLayer?.id,
+      artboards,
+      activeArtboardId: data.activeArtboardId ?? (isRecord(artboards[0]) ? artboards[0].id : undefined),
+      guides: data.guides ?? []
+    };
+  }
+};
+
+// Files written before versions were numbers say '1.0', or nothing at all
+const getVersion = (data: RawProject): number | null => {
+  if (data.version === undefined) return 1;
+  const version = typeof data.version === 'string' ? parseFloat(data.version) : data.version;
+  return typeof version === 'number' && Number.isInteger(version) && version >= 1 ? version : null;
+};
+
+export const getProjectData = (state: CanvasState): ProjectData => ({
+  layers: state.layers,
+  activeLayerId: state.activeLayerId,
+  artboards: state.artboards,
+  activeArtboardId: state.activeArtboardId,
+  guides: state.guides
+});
+
+export const serializeProject = (project: ProjectData): ProjectFile => ({
+  version: PROJECT_VERSION,
+  application: 'VectorStudio Pro',
+  savedAt: new Date().toISOString(),
+  ...project
+});
+
+// Brings saved data of any known version up to date and checks it, so a bad
+// file fails here with an explanation rather than later while rendering
+export const parseProject = (data: unknown): ProjectData => {
+  if (!isRecord(data)) {
+    throw new ProjectLoadError('This is not a VectorStudio project.');
+  }
+
+  const version = getVersion(data);
+  if (version === null) {
+    throw new ProjectLoadError(`Unrecognised project version ${JSON.stringify(data.version)}.`);
+  }
+  if (version > PROJECT_VERSION) {
+    throw new ProjectLoadError(`This project was saved by a newer version of VectorStudio (format ${version}).`);
+  }
+
+  let migrated = data;
+  for (let step = version; step < PROJECT_VERSION; step++) {
+    migrated = MIGRATIONS[step](migrated);
+  }
+
+  const issues = validateProjectFile(migrated);
+  if (issues.length > 0) {
+    throw new ProjectLoadError(`The project has ${issues.length} problem${issues.length === 1 ? '' : 's'}:`, issues);
+  }
+
+  const file = migrated as unknown as ProjectFile;
+  return {
+    layers: file.layers,
+    // A dangling reference is harmless to fix up
+    activeLayerId: file.layers.some(layer => layer.id === file.activeLayerId) ? file.activeLayerId : file.layers[0].id,
+    artboards: file.artboards,
+    activeArtboardId: file.artboards.some(artboard => artboard.id === file.activeArtboardId)
+      ? file.activeArtboardId
+      : file.artboards[0].id,
+    guides: file.guides
+  };
+};
@@ -0,0 +1,199 @@
+// The shape of a saved project, written as validators that mirror the types
+// in ../types. Validating collects every problem with its location, e.g.
+// `layers[0].objects[3].transform: missing`, rather than stopping at the first.
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+type Validator = ((value: unknown, path: string, issues: ValidationIssue[]) => void) & { isOptional?: boolean };
+
+const typeName = (value: unknown): string => {
+  if (value === null || value === undefined) return String(value);
+  if (Array.isArray(value)) return 'an array';
+  return typeof value === 'object' ? 'an object' : `a ${typeof value}`;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const number: Validator = (value, path, issues) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    issues.push({ path, message: `expected a number, got ${typeof value === 'number' ? value : typeName(value)}` });
+  }
+};
+
+const positiveNumber: Validator = (value, path, issues) => {
+  const before = issues.length;
+  number(value, path, issues);
+  if (issues.length === before && (value as number) <= 0) {
+    issues.push({ path, message: `expected a positive number, got ${value}` });
+  }
+};
+
+const string: Validator = (value, path, issues) => {
+  if (typeof value !== 'string') issues.push({ path, message: `expected a string, got ${typeName(value)}` });
+};
+
+const boolean: Validator = (value, path, issues) => {
+  if (typeof value !== 'boolean') issues.push({ path, message: `expected true or false, got ${typeName(value)}` });
+};
+
+const oneOf = (...options: string[]): Validator => (value, path, issues) => {
+  if (typeof value !== 'string' || !options.includes(value)) {
+    issues.push({ path, message: `expected one of ${options.map(option => `"${option}"`).join(', ')}, got ${JSON.stringify(value)}` });
+  }
+};
+
+// May be left out of the object it belongs to
+const optional = (validator: Validator): Validator => Object.assign(
+  (value: unknown, path: string, issues: ValidationIssue[]) => {
+    if (value !== undefined) validator(value, path, issues);
+  },
+  { isOptional: true }
+);
+
+const nullable = (validator: Validator): Validator => (value, path, issues) => {
+  if (value !== null) validator(value, path, issues);
+};
+
+const arrayOf = (item: Validator, minLength: number = 0): Validator => (value, path, issues) => {
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: `expected an array, got ${typeName(value)}` });
+    return;
+  }
+  if (value.length < minLength) {
+    issues.push({ path, message: `expected at least ${minLength} item${minLength === 1 ? '' : 's'}` });
+  }
+  value.forEach((element, i) => item(element, `${path}[${i}]`, issues));
+};
+
+// Keys not listed are allowed and ignored
+const shape = (fields: Record<string, Validator>): Validator => (value, path, issues) => {
+  if (!isRecord(value)) {
+    issues.push({ path, message: `expected an object, got ${typeName(value)}` });
+    return;
+  }
+  Object.entries(fields).forEach(([key, validator]) => {
+    const fieldPath = path ? `${path}.${key}` : key;
+    if (value[key] === undefined && !validator.isOptional) {
+      issues.push({ path: fieldPath, message: 'missing' });
+    } else {
+      validator(value[key], fieldPath, issues);
+    }
+  });
+};
+
+// Picks the shape to check by a `type` field, as for objects and segments
+const tagged = (kind: string, shapes: Record<string, Validator>): Validator => (value, path, issues) => {
+  if (!isRecord(value)) {
+    issues.push({ path, message: `expected an object, got ${typeName(value)}` });
+    return;
+  }
+  const validator = typeof value.type === 'string' ? shapes[value.type] : undefined;
+  if (!validator) {
+    issues.push({ path: `${path}.type`, message: `unknown ${kind} type ${JSON.stringify(value.type)}` });
+    return;
+  }
+  validator(value, path, issues);
+};
+
+const point = shape({ x: number, y: number });
+
+const matrix = shape({ a: number, b: number, c: number, d: number, e: number, f: number });
+
+const transform = shape({ x: number, y: number, rotation: number, scaleX: number, scaleY: number });
+
+const gradient = shape({
+  type: oneOf('linear', 'radial'),
+  stops: arrayOf(shape({ offset: number, color: string, opacity: number })),
+  angle: optional(number),
+  linearVector: optional(shape({ x1: number, y1: number, x2: number, y2: number })),
+  radialShape: optional(shape({ cx: number, cy: number, r: number, fx: number, fy: number })),
+  gradientUnits: optional(oneOf('objectBoundingBox', 'userSpaceOnUse')),
+  gradientTransform: optional(matrix)
+});
+
+const style = shape({
+  fill: string,
+  stroke: string,
+  strokeWidth: number,
+  opacity: number,
+  fillOpacity: number,
+  strokeOpacity: number,
+  gradient: optional(nullable(gradient)),
+  fillRule: optional(oneOf('nonzero', 'evenodd'))
+});
+
+const segment = tagged('segment', {
+  M: shape({ x: number, y: number }),
+  L: shape({ x: number, y: number }),
+  C: shape({ x1: number, y1: number, x2: number, y2: number, x: number, y: number }),
+  Q: shape({ x1: number, y1: number, x: number, y: number }),
+  A: shape({ rx: number, ry: number, xAxisRotation: number, largeArc: boolean, sweep: boolean, x: number, y: number }),
+  Z: shape({})
+});
+
+const baseFields = {
+  id: string,
+  transform,
+  style,
+  visible: boolean,
+  locked: boolean,
+  selected: optional(boolean)
+};
+
+// Groups hold objects, so the object validator refers to itself
+const canvasObject: Validator = (value, path, issues) => objectShapes(value, path, issues);
+
+const objectShapes = tagged('object', {
+  rect: shape({ ...baseFields, width: number, height: number, rx: optional(number), ry: optional(number) }),
+  circle: shape({ ...baseFields, radius: number }),
+  path: shape({ ...baseFields, segments: arrayOf(segment) }),
+  curve: shape({ ...baseFields, points: arrayOf(point), controlPoints: arrayOf(point), closed: boolean }),
+  text: shape({ ...baseFields, content: string, fontSize: number, fontFamily: string, fontWeight: string }),
+  line: shape({ ...baseFields, x1: number, y1: number, x2: number, y2: number }),
+  image: shape({ ...baseFields, src: string, width: number, height: number, originalWidth: number, originalHeight: number }),
+  group: shape({ ...baseFields, children: arrayOf(canvasObject) })
+});
+
+const layer = shape({
+  id: string,
+  name: string,
+  visible: boolean,
+  locked: boolean,
+  objects: arrayOf(canvasObject)
+});
+
+const artboard = shape({
+  id: string,
+  name: string,
+  x: number,
+  y: number,
+  width: positiveNumber,
+  height: positiveNumber
+});
+
+const guide = shape({
+  id: string,
+  orientation: oneOf('horizontal', 'vertical'),
+  position: number
+});
+
+// A project file at the current version
+const projectFile = shape({
+  version: number,
+  layers: arrayOf(layer, 1),
+  activeLayerId: string,
+  artboards: arrayOf(artboard, 1),
+  activeArtboardId: string,
+  guides: arrayOf(guide)
+});
+
+export const validateProjectFile = (value: unknown): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  projectFile(value, '', issues);
+  return issues;
+};
@@ -0,0 +1,169 @@
+import { BoundingBox, CanvasObject, Guide, Point, SnapSettings } from '../types';
+import { applyMatrix, getBoundingBox, transformToMatrix } from './geometry';
+import { getPathNodes, toEditableSegments } from './path';
+
+// A smart guide to draw: a line in canvas coordinates, optionally labelled
+// with the gap it spans, or a marker on a node that was snapped to
+export interface SnapGuide {
+  from: Point;
+  to: Point;
+  label?: string;
+  labelAt?: Point;
+  marker?: boolean;
+}
+
+export interface SnapTargets {
+  boxes: BoundingBox[];
+  nodes: Point[];
+  guides: Guide[];
+}
+
+export interface SnapResult {
+  offset: Point;
+  guides: SnapGuide[];
+}
+
+// Screen pixels within which snapping engages
+export const SNAP_DISTANCE = 8;
+
+const boxFeatures = (box: BoundingBox, axis: 'x' | 'y'): number[] => {
+  const start = axis === 'x' ? box.x : box.y;
+  const size = axis === 'x' ? box.width : box.height;
+  return [start, start + size / 2, start + size];
+};
+
+// Boxes and path nodes of the visible objects, and the ruler guides, that
+// things can snap to
+export const getSnapTargets = (objects: CanvasObject[], excludeIds: string[] = [], guides: Guide[] = []): SnapTargets => {
+  const candidates = objects.filter(obj => obj.visible && !excludeIds.includes(obj.id));
+  return {
+    boxes: candidates.map(obj => getBoundingBox(obj)),
+    nodes: candidates.flatMap(obj => {
+      if (obj.type !== 'path' && obj.type !== 'curve') return [];
+      const matrix = transformToMatrix(obj.transform);
+      const anchors = obj.type === 'path'
+        ? getPathNodes(toEditableSegments(obj.segments)).map(node => node.anchor)
+        : obj.points;
+      return anchors.map(p => applyMatrix(p, matrix));
+    }),
+    guides
+  };
+};
+
+interface AxisSnap {
+  delta: number;
+  value: number;
+  boxes: BoundingBox[];
+}
+
+// Closest match between the features and object features or guides within
+// `threshold`; the grid is only consulted when nothing else is close enough
+const snapAxis = (
+  features: number[],
+  axis: 'x' | 'y',
+  targets: SnapTargets,
+  settings: SnapSettings,
+  threshold: number
+): AxisSnap | null => {
+  let best: AxisSnap | null = null;
+
+  if (settings.smartGuides) {
+    targets.boxes.forEach(box => {
+      boxFeatures(box, axis).forEach(value => {
+        features.forEach(feature => {
+          const delta = value - feature;
+          if (Math.abs(delta) > threshold) return;
+          if (!best || Math.abs(delta) < Math.abs(best.delta) - 1e-9) {
+            best = { delta, value, boxes: [box] };
+          } else if (Math.abs(delta - best.delta) < 1e-9 && !best.boxes.includes(box)) {
+            best.boxes.push(box);
+          }
+        });
+      });
+    });
+
+    // Guides are drawn already, so a guide snap adds no line of its own
+    targets.guides
+      .filter(guide => guide.orientation === (axis === 'x' ? 'vertical' : 'horizontal'))
+      .forEach(guide => {
+        features.forEach(feature => {
+          const delta = guide.position - feature;
+          if (Math.abs(delta) <= threshold && (!best || Math.abs(delta) < Math.abs(best.delta) - 1e-9)) {
+            best = { delta, value: guide.position, boxes: [] };
+          }
+        });
+      });
+  }
+
+  if (!best && settings.grid && settings.gridSize > 0) {
+    features.forEach(feature => {
+      const value = Math.round(feature / settings.gridSize) * settings.gridSize;
+      const delta = value - feature;
+      if (Math.abs(delta) <= threshold && (!best || Math.abs(delta) < Math.abs(best.delta))) {
+        best = { delta, value, boxes: [] };
+      }
+    });
+  }
+
+  return best;
+};
+
+// Lines through the snapped value reaching from the moving box to each box
+// it lines up with, labelled with the gap between them
+const getAxisGuides = (snap: AxisSnap, axis: 'x' | 'y', moving: BoundingBox): SnapGuide[] => {
+  const start = (box: BoundingBox) => axis === 'x' ? box.y : box.x;
+  const end = (box: BoundingBox) => axis === 'x' ? box.y + box.height : box.x + box.width;
+  const at = (along: number): Point => axis === 'x' ? { x: snap.value, y: along } : { x: along, y: snap.value };
+
+  return snap.boxes.map(box => {
+    const from = Math.min(start(moving), start(box));
+    const to = Math.max(end(moving), end(box));
+    const gapStart = Math.min(end(moving), end(box));
+    const gapEnd = Math.max(start(moving), start(box));
+    const gap = gapEnd - gapStart;
+
+    return {
+      from: at(from),
+      to: at(to),
+      ...(gap > 0 ? { label: `${Math.round(gap)}`, labelAt: at((gapStart + gapEnd) / 2) } : {})
+    };
+  });
+};
+
+// Snaps a box being moved by its edges and center
+export const snapBox = (box: BoundingBox, targets: SnapTargets, settings: SnapSettings, threshold: number): SnapResult => {
+  const snapX = snapAxis(boxFeatures(box, 'x'), 'x', targets, settings, threshold);
+  const snapY = snapAxis(boxFeatures(box, 'y'), 'y', targets, settings, threshold);
+  const offset = { x: snapX?.delta || 0, y: snapY?.delta || 0 };
+  const moved = { ...box, x: box.x + offset.x, y: box.y + offset.y };
+
+  return {
+    offset,
+    guides: [
+      ...(snapX ? getAxisGuides(snapX, 'x', moved) : []),
+      ...(snapY ? getAxisGuides(snapY, 'y', moved) : [])
+    ]
+  };
+};
+
+// Snaps a single point (a cursor, node or handle): onto a nearby path node
+// if there is one, otherwise along each axis independently
+export const snapPoint = (point: Point, targets: SnapTargets, settings: SnapSettings, threshold: number): SnapResult => {
+  if (settings.smartGuides) {
+    let nearest: Point | null = null;
+    let nearestDistance = threshold;
+    targets.nodes.forEach(node => {
+      const distance = Math.hypot(node.x - point.x, node.y - point.y);
+      if (distance <= nearestDistance) {
+        nearest = node;
+        nearestDistance = distance;
+      }
+    });
+    if (nearest) {
+      const node: Point = nearest;
+      return { offset: { x: node.x - point.x, y: node.y - point.y }, guides: [{ from: node, to: node, marker: true }] };
+    }
+  }
+
+  return snapBox({ x: point.x, y: point.y, width: 0, height: 0 }, targets, settings, threshold);
+};
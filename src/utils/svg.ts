@@ -1,4 +1,5 @@
 import { CanvasObject, Layer } from '../types';
+import { segmentsToPathData, smoothCurveToSegments } from './path';
 
 export const generateSVG = (layers: Layer[], canvasSize: { width: number; height: number }): string => {
   const svgElements = layers
@@ -34,11 +35,10 @@ const objectToSVG = (obj: CanvasObject): string => {
       return `<text x="0" y="0" font-family="${obj.fontFamily}" font-size="${obj.fontSize}" font-weight="${obj.fontWeight}" ${styleStr} transform="${transformStr}">${obj.content}</text>`;
     
     case 'path':
-      const pathData = obj.points.length > 0 ? 
-        `M ${obj.points[0].x} ${obj.points[0].y} ` + 
-        obj.points.slice(1).map(p => `L ${p.x} ${p.y}`).join(' ') +
-        (obj.closed ? ' Z' : '') : '';
-      return `<path d="${pathData}" ${styleStr} transform="${transformStr}" />`;
+      return `<path d="${segmentsToPathData(obj.segments)}" ${styleStr} transform="${transformStr}" />`;
+    
+    case 'curve':
+      return `<path d="${segmentsToPathData(smoothCurveToSegments(obj.points))}" ${styleStr} transform="${transformStr}" />`;
     
     default:
       return '';